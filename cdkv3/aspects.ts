@@ -0,0 +1,81 @@
+import { Construct, IAspect, ILinkable, Linkable, LinkOperation, StackTrace } from "./construct";
+import { Resource } from "./core";
+
+/**
+ * Aspects to register on a `Root` with `addAspect()`
+ *
+ * ```ts
+ * root.addAspect(
+ *   Aspect.modify([Bucket.Tag('Owner', 'team-x')]),
+ *   Aspect.validate((x) => x instanceof Bucket && !x.property('LoggingConfiguration').value ? ['logging is not enabled'] : []),
+ * );
+ * ```
+ */
+export class Aspect {
+  /**
+   * Apply modifiers to every construct in the app they can apply to
+   *
+   * Each modifier must apply to at least one construct.
+   */
+  public static modify(linkables: ILinkable[]): IAspect {
+    return new ModifierAspect(linkables);
+  }
+
+  /**
+   * Call a function on every construct in the app
+   *
+   * The function may change the construct and add new ones, which are
+   * visited as well.
+   */
+  public static visit(fn: (x: Construct) => void): IAspect {
+    return { phase: 'mutate', visit: (x) => { fn(x); } };
+  }
+
+  /**
+   * Record the construct path of every resource in its `aws:cdk:path` metadata
+   */
+  public static pathMetadata(): IAspect {
+    return Aspect.visit((x) => {
+      if (x instanceof Resource) {
+        x.addMetadata('aws:cdk:path', x.constructPath.join('/'));
+      }
+    });
+  }
+
+  /**
+   * Check every construct in the finished app
+   *
+   * The function returns the problems it finds with a construct, if any.
+   */
+  public static validate(fn: (x: Construct) => string[] | void): IAspect {
+    return { phase: 'validate', visit: fn };
+  }
+}
+
+class ModifierAspect implements IAspect {
+  public readonly phase = 'mutate';
+  private readonly registeredAt = StackTrace.capture();
+  private readonly reached = new Set<ILinkable>();
+
+  constructor(private readonly linkables: ILinkable[]) {
+  }
+
+  public visit(x: Construct) {
+    const operation: LinkOperation = { root: x.root, linkCall: this.registeredAt };
+    for (const linkable of this.linkables) {
+      if (Linkable.tryLink(linkable, x, operation)) {
+        this.reached.add(linkable);
+      }
+    }
+  }
+
+  public finish(root: Construct) {
+    for (const linkable of this.linkables) {
+      linkable.finishLink?.(root);
+      if (!this.reached.has(linkable)) {
+        throw new Error(`${linkable} did not apply to anything in ${root}` +
+          (linkable.creationStack ? `, created at:\n${linkable.creationStack}` : ''));
+      }
+    }
+  }
+}
@@ -0,0 +1,363 @@
+import { Construct } from "./construct";
+import { Resource } from "./core";
+import { deepResolve, isToken } from "./tokens";
+
+/**
+ * Assertions on the resources a construct tree renders to, for tests
+ *
+ * ```ts
+ * const template = Template.fromConstruct(root);
+ * template.resourceCountIs('AWS::S3::Bucket', 1);
+ * template.hasResourceProperties('AWS::S3::BucketPolicy', { Bucket: bucket.ref });
+ * ```
+ *
+ * Patterns match objects partially: keys the pattern doesn't mention are
+ * ignored. Tokens in patterns are resolved the same way the resources are.
+ */
+export class Template {
+  public static fromConstruct(scope: Construct) {
+    return new Template(Resource.renderAll(scope), (x) => deepResolve(x, scope));
+  }
+
+  /**
+   * Assert on already-rendered resources, e.g. the `Resources` of a synthesized template
+   */
+  public static fromResources(resources: Record<string, any>) {
+    return new Template(resources, (x) => x);
+  }
+
+  private constructor(public readonly resources: Record<string, any>, private readonly resolve: (x: any) => any) {
+  }
+
+  public resourceCountIs(type: string, count: number) {
+    const found = Object.keys(this.findResources(type)).length;
+    if (found !== count) {
+      throw new Error(`Expected ${count} resources of type ${type}, found ${found}`);
+    }
+  }
+
+  /**
+   * The resources of the given type that match the pattern, by logical ID
+   */
+  public findResources(type: string, pattern: any = {}): Record<string, any> {
+    return Object.fromEntries(Object.entries(this.resources)
+      .filter(([_, r]) => r.Type === type && this.match(pattern, r).failures.length === 0));
+  }
+
+  /**
+   * Assert that a resource of the given type matches the pattern
+   */
+  public hasResource(type: string, pattern: any) {
+    this.assertMatch(type, pattern, (r) => r);
+  }
+
+  /**
+   * Assert that the properties of a resource of the given type match the pattern
+   */
+  public hasResourceProperties(type: string, pattern: any) {
+    this.assertMatch(type, pattern, (r) => r.Properties ?? {});
+  }
+
+  private assertMatch(type: string, pattern: any, select: (resource: any) => any) {
+    const candidates = Object.entries(this.resources).filter(([_, r]) => r.Type === type);
+    if (candidates.length === 0) {
+      throw new Error(`Template has no resources of type ${type}`);
+    }
+
+    const results = candidates.map(([id, r]) => ({ id, actual: select(r), ...this.match(pattern, select(r)) }));
+    const success = results.find(r => r.failures.length === 0);
+    if (success) {
+      success.captures.forEach(([capture, value]) => capture.record(value));
+      return;
+    }
+
+    const closest = results.reduce((a, b) => b.failures.length < a.failures.length ? b : a);
+    throw new Error([
+      `Template has ${candidates.length} resources of type ${type}, but none match as expected.`,
+      `The closest match is ${closest.id}:`,
+      ...JSON.stringify(closest.actual, undefined, 2).split('\n').map(l => `  ${l}`),
+      'with the following mismatches:',
+      ...closest.failures.flatMap(f => [
+        `  at /${f.path.join('/')}`,
+        `  - ${f.expected}`,
+        `  + ${f.actual}`,
+      ]),
+    ].join('\n'));
+  }
+
+  private match(pattern: any, actual: any) {
+    const captures = new Array<[Capture, any]>();
+    const failures = matchValue(pattern, actual, new MatchContext([], this.resolve, captures));
+    return { failures, captures };
+  }
+}
+
+/**
+ * A way a value didn't match, with the expected and actual values described
+ */
+export interface MatchFailure {
+  readonly path: string[];
+  readonly expected: string;
+  readonly actual: string;
+}
+
+/**
+ * Where in the value a matcher is looking
+ */
+export class MatchContext {
+  constructor(
+    public readonly path: string[],
+    private readonly resolver: (x: any) => any,
+    private readonly captures: Array<[Capture, any]>) {
+  }
+
+  public at(key: string | number) {
+    return new MatchContext([...this.path, `${key}`], this.resolver, this.captures);
+  }
+
+  public resolve(x: any) {
+    return this.resolver(x);
+  }
+
+  public capture(capture: Capture, value: any) {
+    this.captures.push([capture, value]);
+  }
+
+  /**
+   * Run a match, dropping the values it captured if it fails
+   */
+  public attempt(fn: () => MatchFailure[]): MatchFailure[] {
+    const saved = this.captures.length;
+    const failures = fn();
+    if (failures.length > 0) {
+      this.captures.splice(saved);
+    }
+    return failures;
+  }
+
+  public fail(expected: string, actual: any): MatchFailure[] {
+    return [{ path: this.path, expected, actual: describe(actual) }];
+  }
+}
+
+export abstract class Matcher {
+  /**
+   * Return the ways the actual value doesn't match, if any
+   */
+  public abstract test(actual: any, context: MatchContext): MatchFailure[];
+
+  public abstract toString(): string;
+}
+
+export class Match {
+  /**
+   * Match an object that has at least the given keys, with matching values
+   */
+  public static objectLike(pattern: Record<string, any>): Matcher {
+    return new ObjectMatcher(pattern, true);
+  }
+
+  /**
+   * Match an object that has exactly the given keys
+   */
+  public static objectEquals(pattern: Record<string, any>): Matcher {
+    return new ObjectMatcher(pattern, false);
+  }
+
+  /**
+   * Match an array that contains elements matching the patterns, in order
+   */
+  public static arrayWith(patterns: any[]): Matcher {
+    return new ArrayWithMatcher(patterns);
+  }
+
+  /**
+   * Match a key that is not present (or undefined)
+   */
+  public static absent(): Matcher {
+    return new PredicateMatcher('absent()', (x) => x === undefined);
+  }
+
+  /**
+   * Match any value that is present
+   */
+  public static anyValue(): Matcher {
+    return new PredicateMatcher('anyValue()', (x) => x !== undefined && x !== null);
+  }
+
+  public static stringLikeRegexp(re: RegExp | string): Matcher {
+    const regexp = typeof re === 'string' ? new RegExp(re) : re;
+    return new PredicateMatcher(`stringLikeRegexp(${regexp})`, (x) => typeof x === 'string' && regexp.test(x));
+  }
+}
+
+/**
+ * A matcher that records the values it matches
+ *
+ * Values are only recorded from the resource that ended up matching.
+ */
+export class Capture extends Matcher {
+  private readonly values = new Array<any>();
+
+  constructor(private readonly pattern: any = Match.anyValue()) {
+    super();
+  }
+
+  public test(actual: any, context: MatchContext): MatchFailure[] {
+    const failures = context.attempt(() => matchValue(this.pattern, actual, context));
+    if (failures.length === 0) {
+      context.capture(this, actual);
+    }
+    return failures;
+  }
+
+  public record(value: any) {
+    this.values.push(value);
+  }
+
+  /**
+   * The last value captured
+   */
+  public get value(): any {
+    if (this.values.length === 0) {
+      throw new Error('Nothing was captured');
+    }
+    return this.values[this.values.length - 1];
+  }
+
+  public asString(): string {
+    return this.typed('string');
+  }
+
+  public asNumber(): number {
+    return this.typed('number');
+  }
+
+  public asArray(): any[] {
+    if (!Array.isArray(this.value)) {
+      throw new Error(`Captured value is not an array: ${describe(this.value)}`);
+    }
+    return this.value;
+  }
+
+  public asObject(): Record<string, any> {
+    if (!this.value || typeof this.value !== 'object' || Array.isArray(this.value)) {
+      throw new Error(`Captured value is not an object: ${describe(this.value)}`);
+    }
+    return this.value;
+  }
+
+  public toString() {
+    return `Capture(${describe(this.pattern)})`;
+  }
+
+  private typed(type: string) {
+    if (typeof this.value !== type) {
+      throw new Error(`Captured value is not a ${type}: ${describe(this.value)}`);
+    }
+    return this.value;
+  }
+}
+
+class ObjectMatcher extends Matcher {
+  constructor(private readonly pattern: Record<string, any>, private readonly partial: boolean) {
+    super();
+  }
+
+  public test(actual: any, context: MatchContext): MatchFailure[] {
+    if (!actual || typeof actual !== 'object' || Array.isArray(actual)) {
+      return context.fail(`${this}`, actual);
+    }
+    const extra = this.partial ? [] : Object.keys(actual).filter(k => !(k in this.pattern) && actual[k] !== undefined);
+    return [
+      ...Object.entries(this.pattern).flatMap(([k, p]) => matchValue(p, actual[k], context.at(k))),
+      ...extra.flatMap(k => context.at(k).fail('(absent)', actual[k])),
+    ];
+  }
+
+  public toString() {
+    return `${this.partial ? 'objectLike' : 'objectEquals'}(${describe(this.pattern)})`;
+  }
+}
+
+class ArrayWithMatcher extends Matcher {
+  constructor(private readonly patterns: any[]) {
+    super();
+  }
+
+  public test(actual: any, context: MatchContext): MatchFailure[] {
+    if (!Array.isArray(actual)) {
+      return context.fail(`${this}`, actual);
+    }
+    let i = 0;
+    for (const pattern of this.patterns) {
+      while (i < actual.length && context.attempt(() => matchValue(pattern, actual[i], context.at(i))).length > 0) {
+        i++;
+      }
+      if (i === actual.length) {
+        return context.fail(`${this}`, actual);
+      }
+      i++;
+    }
+    return [];
+  }
+
+  public toString() {
+    return `arrayWith(${describe(this.patterns)})`;
+  }
+}
+
+class PredicateMatcher extends Matcher {
+  constructor(private readonly description: string, private readonly pred: (x: any) => boolean) {
+    super();
+  }
+
+  public test(actual: any, context: MatchContext): MatchFailure[] {
+    return this.pred(actual) ? [] : context.fail(this.description, actual);
+  }
+
+  public toString() {
+    return this.description;
+  }
+}
+
+/**
+ * Match a value against a pattern
+ *
+ * Objects in the pattern match partially, arrays must have the same length
+ * and other values must be equal.
+ */
+function matchValue(pattern: any, actual: any, context: MatchContext): MatchFailure[] {
+  if (pattern instanceof Matcher) {
+    return pattern.test(actual, context);
+  }
+  if (isToken(pattern)) {
+    return matchValue(context.resolve(pattern), actual, context);
+  }
+  if (Array.isArray(pattern)) {
+    if (!Array.isArray(actual) || actual.length !== pattern.length) {
+      return context.fail(describe(pattern), actual);
+    }
+    return pattern.flatMap((p, i) => matchValue(p, actual[i], context.at(i)));
+  }
+  if (pattern && typeof pattern === 'object') {
+    return new ObjectMatcher(pattern, true).test(actual, context);
+  }
+  return pattern === actual ? [] : context.fail(describe(pattern), actual);
+}
+
+function describe(x: any): string {
+  if (x === undefined) {
+    return '(absent)';
+  }
+  if (x instanceof Matcher) {
+    return `${x}`;
+  }
+  if (Array.isArray(x)) {
+    return `[${x.map(describe).join(', ')}]`;
+  }
+  if (x && typeof x === 'object') {
+    return `{ ${Object.entries(x).map(([k, v]) => `${JSON.stringify(k)}: ${describe(v)}`).join(', ')} }`;
+  }
+  return JSON.stringify(x);
+}
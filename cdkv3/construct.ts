@@ -1,3 +1,5 @@
+import * as path from "path";
+
 type LinkHandler = (target: any, here: any) => void;
 
 export class Construct implements ILinkable {
@@ -9,6 +11,19 @@ export class Construct implements ILinkable {
   public readonly creationStack: StackTrace;
   public readonly children: Record<string, Construct> = {};
   public readonly linkHandlers: Record<string, LinkHandler[]> = {};
+  public readonly warnings: string[] = [];
+  public readonly metadata: MetadataEntry[] = [];
+
+  /**
+   * The linkables that were applied to this construct, and the constructs moved under it
+   */
+  public readonly linkEvents: LinkEvent[] = [];
+
+  /**
+   * The persistent linkables linked to this construct
+   */
+  public readonly deferredLinks: DeferredLink[] = [];
+  private sealed = false;
 
   constructor(private _scope: Construct | undefined, public readonly id: string | undefined) {
     if ((id === null) !== (_scope === null)) {
@@ -16,7 +31,9 @@ export class Construct implements ILinkable {
     }
     this.creationStack = StackTrace.capture();
 
-    if (_scope && id) {
+    // Floating constructs are not kept by Scope.FLOATING, so they can share ids
+    // and the ones that are never linked can be garbage collected
+    if (_scope && id && _scope !== Scope.FLOATING) {
       if (_scope.children[id]) {
         throw new Error(`Duplicate child: ${id}`);
       }
@@ -28,6 +45,21 @@ export class Construct implements ILinkable {
     return this._scope;
   }
 
+  /**
+   * The root of the tree this construct is in
+   */
+  public get root(): Construct {
+    let x: Construct = this;
+    while (x.scope) {
+      x = x.scope;
+    }
+    return x;
+  }
+
+  public get isSealed() {
+    return this.root.sealed;
+  }
+
   protected makeLinkableAs(...targets: string[]) {
     this.linksAs.push(...targets);
   }
@@ -58,23 +90,224 @@ export class Construct implements ILinkable {
    * Link linkables to the current construct tree
    * 
    * `Scope.FLOATING` requires this to be a top-down operation
+   *
+   * Every linkable must find at least one construct in the tree to apply to
+   * (reparenting a floating construct counts). If it doesn't, that's an error,
+   * or a warning recorded in `warnings` if `unmatched: 'warn'` is passed.
+   *
+   * With `persistent: true`, the linkables also apply to constructs added
+   * under this one later, when the tree is sealed. They only need to have
+   * applied to something by then.
+   */
+  public link(linkables?: Array<ILinkable | undefined>, options?: LinkOptions) {
+    if (options?.persistent && this.isSealed) {
+      throw new Error(`Cannot link persistent linkables to ${this}: the tree has already been sealed`);
+    }
+
+    const present = (linkables ?? []).filter(isDefined);
+    const operation = { root: this, linkCall: StackTrace.capture() };
+    const reached = new Map<ILinkable, Construct[]>();
+    const visited = new Set<Construct>();
+    this.linkRecursive(present, reached, visited, operation);
+
+    if (options?.persistent) {
+      for (const linkable of present) {
+        this.deferredLinks.push({ linkable, operation, options, visited: new Set(visited), reached: reached.get(linkable) ?? [] });
+      }
+      return;
+    }
+
+    for (const linkable of present) {
+      linkable.finishLink?.(this);
+    }
+    for (const linkable of present) {
+      if (!reached.has(linkable)) {
+        this.reportUnmatched(linkable, options);
+      }
+    }
+  }
+
+  /**
+   * Run the aspects and apply persistent linkables to the finished tree
+   *
+   * Mutating aspects and persistent linkables are applied to every construct
+   * once, in passes, until a pass adds no constructs; then the validating
+   * aspects run. After this, persistent linkables and aspects can no longer
+   * be added. Rendering seals the tree, sealing twice does nothing.
    */
-  public link(linkables?: Array<ILinkable | undefined>) {
-    for (const linkable of linkables ?? []) {
-      if (!linkable) { continue; }
+  public seal() {
+    const root = this.root;
+    if (root.sealed) {
+      return;
+    }
+    root.sealed = true;
+
+    const aspects = root instanceof Root ? root.aspects : [];
+    const visited = new Map(aspects.map(a => [a, new Set<Construct>()]));
+    let fresh = new Set<Construct>();
+    for (let pass = 0; pass === 0 || fresh.size > 0; pass++) {
+      if (pass === MAX_SEAL_PASSES) {
+        throw new Error(`Aspects did not converge after ${MAX_SEAL_PASSES} passes, still adding: ${[...fresh].join(', ')}`);
+      }
+      fresh = new Set();
+      for (const aspect of aspects.filter(a => a.phase === 'mutate')) {
+        for (const x of root.descendants) {
+          if (!visited.get(aspect)!.has(x)) {
+            visited.get(aspect)!.add(x);
+            fresh.add(x);
+            aspect.visit(x);
+          }
+        }
+      }
+      for (const x of root.descendants) {
+        x.applyDeferredLinks(fresh);
+      }
+    }
+
+    for (const x of root.descendants) {
+      x.finishDeferredLinks();
+    }
+    for (const aspect of aspects) {
+      aspect.finish?.(root);
+    }
+
+    const problems = aspects.filter(a => a.phase === 'validate').flatMap(aspect =>
+      root.descendants.flatMap(x => (aspect.visit(x) ?? []).map(p => `  ${x}: ${p}`)));
+    if (problems.length > 0) {
+      throw new Error(`Validation failed:\n${problems.join('\n')}`);
+    }
+  }
+
+  /**
+   * This construct and everything under it, breadth first
+   */
+  public get descendants(): Construct[] {
+    return Array.from(this.breadthFirst());
+  }
+
+  /**
+   * The scopes of this construct, from its parent up to the root
+   */
+  public get ancestors(): Construct[] {
+    const ret = new Array<Construct>();
+    for (let x = this.scope; x; x = x.scope) {
+      ret.push(x);
+    }
+    return ret;
+  }
+
+  /**
+   * Visit this construct and everything under it, level by level
+   */
+  public *breadthFirst(): IterableIterator<Construct> {
+    const queue: Construct[] = [this];
+    while (queue.length > 0) {
+      const x = queue.shift()!;
+      yield x;
+      queue.push(...Object.values(x.children));
+    }
+  }
+
+  /**
+   * Visit this construct and everything under it, every construct before its children
+   */
+  public *depthFirst(): IterableIterator<Construct> {
+    yield this;
+    for (const child of Object.values(this.children)) {
+      yield* child.depthFirst();
+    }
+  }
+
+  /**
+   * The constructs in this subtree that match the predicate, depth first
+   */
+  public findAll<A extends Construct>(pred: (x: Construct) => x is A): A[];
+  public findAll(pred?: (x: Construct) => boolean): Construct[];
+  public findAll(pred: (x: Construct) => boolean = () => true): Construct[] {
+    return Array.from(this.depthFirst()).filter(pred);
+  }
+
+  /**
+   * The constructs in this subtree that can be linked to as the given type
+   */
+  public findByLinksAs(type: string): Construct[] {
+    return this.findAll(x => x.linksAs.includes(type));
+  }
+
+  public tryFindChild(id: string): Construct | undefined {
+    return this.children[id];
+  }
+
+  /**
+   * Find a construct by its path relative to this one, e.g. `Bucket/BucketPolicy`
+   */
+  public findByPath(path: string): Construct | undefined {
+    let x: Construct | undefined = this;
+    for (const id of path.split('/').filter(p => p !== '')) {
+      x = x?.tryFindChild(id);
+    }
+    return x;
+  }
+
+  /**
+   * Attach a metadata entry to this construct
+   *
+   * Resources render their entries in their `Metadata` attribute.
+   */
+  public addMetadata(key: string, value: any) {
+    this.metadata.push({ key, value, trace: StackTrace.capture() });
+  }
+
+  private applyDeferredLinks(fresh: Set<Construct>) {
+    for (const deferred of this.deferredLinks) {
+      for (const x of this.descendants) {
+        if (!deferred.visited.has(x)) {
+          deferred.visited.add(x);
+          fresh.add(x);
+          if (Linkable.tryLink(deferred.linkable, x, deferred.operation)) {
+            deferred.reached.push(x);
+          }
+        }
+      }
+    }
+  }
+
+  private finishDeferredLinks() {
+    for (const deferred of this.deferredLinks) {
+      deferred.linkable.finishLink?.(this);
+      if (deferred.reached.length === 0) {
+        this.reportUnmatched(deferred.linkable, deferred.options);
+      }
+    }
+  }
+
+  private reportUnmatched(linkable: ILinkable, options?: LinkOptions) {
+    const message = `${linkable} did not apply to anything in ${this}` +
+      (linkable.creationStack ? `, created at:\n${linkable.creationStack}` : '');
+    if (options?.unmatched === 'warn') {
+      this.warnings.push(message);
+    } else {
+      throw new Error(message);
+    }
+  }
+
+  private linkRecursive(linkables: ILinkable[], reached: Map<ILinkable, Construct[]>, visited: Set<Construct>, operation: LinkOperation) {
+    visited.add(this);
+    for (const linkable of linkables) {
       if (Construct.isConstruct(linkable) && linkable.scope === Scope.FLOATING) {
         linkable.reparentTo(this);
+        this.linkEvents.push({ kind: 'reparent', linkable, target: this, ...operation });
+        addReached(reached, linkable, this);
       }
 
-      Linkable.tryLink(linkable, this);
+      if (Linkable.tryLink(linkable, this, operation)) {
+        addReached(reached, linkable, this);
+      }
     }
 
     for (const child of Object.values(this.children)) {
-      child.link(linkables);
+      child.linkRecursive(linkables, reached, visited, operation);
     }
-
-    // FIXME: it should be an error if none of the linkables found anything to link to
-    // in this traversal.
   }
 
   public get constructPath(): string[] {
@@ -87,6 +320,41 @@ export class Construct implements ILinkable {
     return ret;
   }
 
+  /**
+   * Whether this construct renders to a template of its own
+   */
+  public get isTemplateRoot(): boolean {
+    return this.scope === undefined;
+  }
+
+  /**
+   * The construct whose template this construct renders into
+   */
+  public get templateRoot(): Construct {
+    let x: Construct = this;
+    while (!x.isTemplateRoot && x.scope) {
+      x = x.scope;
+    }
+    return x;
+  }
+
+  /**
+   * The path of this construct inside its template
+   */
+  public get templatePath(): string[] {
+    return this.constructPath.slice(this.templateRoot.constructPath.length);
+  }
+
+  /**
+   * Turn a value that refers to a construct in another template into one that can be used in this template
+   *
+   * Called on template roots, with the value as it would render in the
+   * producer's template.
+   */
+  public resolveReference(producer: Construct, _value: any): any {
+    throw new Error(`Cannot reference ${producer} from ${this}: they render into different templates`);
+  }
+
   public toString() {
     return `${this.constructor.name}@${this.constructPath.join('/')}`;
   }
@@ -115,9 +383,38 @@ export class Root extends Construct {
     return ret;
   }
 
+  /**
+   * The aspects that run over the tree when it is sealed
+   */
+  public readonly aspects: IAspect[] = [];
+
   constructor() {
     super(undefined, undefined);
   }
+
+  public addAspect(...aspects: IAspect[]) {
+    if (this.isSealed) {
+      throw new Error(`Cannot add aspects to ${this}: the tree has already been sealed`);
+    }
+    this.aspects.push(...aspects);
+  }
+}
+
+/**
+ * Code that runs over every construct in the tree when it is sealed
+ *
+ * 'mutate' aspects run first, also on the constructs they add. 'validate'
+ * aspects run on the finished tree and return the problems they find.
+ */
+export interface IAspect {
+  readonly phase: 'mutate' | 'validate';
+
+  visit(x: Construct): string[] | void;
+
+  /**
+   * Called after the last construct has been visited by the mutate phase
+   */
+  finish?(root: Construct): void;
 }
 
 /**
@@ -125,23 +422,131 @@ export class Root extends Construct {
  */
 export interface ILinkable {
   readonly linksTo: string[];
-  linkTo(target: Construct): void;
+
+  /**
+   * Where the linkable was created, used to report linkables that don't apply
+   */
+  readonly creationStack?: StackTrace;
+
+  /**
+   * Apply to a target that the linkable links to
+   *
+   * Returning `false` means the linkable turned out not to apply after all.
+   */
+  linkTo(target: Construct): void | boolean;
+
+  /**
+   * Called at the end of a `link()` call that this linkable was passed to
+   */
+  finishLink?(root: Construct): void;
+}
+
+export interface LinkOptions {
+  /**
+   * What to do with linkables that didn't link to anything
+   *
+   * @default 'error'
+   */
+  readonly unmatched?: 'error' | 'warn';
+
+  /**
+   * Also apply the linkables to constructs added later, until the tree is sealed
+   *
+   * @default false
+   */
+  readonly persistent?: boolean;
+}
+
+export interface MetadataEntry {
+  readonly key: string;
+  readonly value: any;
+
+  /**
+   * Where the entry was added
+   */
+  readonly trace: StackTrace;
+}
+
+/**
+ * A persistent linkable, and the constructs it has applied to
+ */
+export interface DeferredLink {
+  readonly linkable: ILinkable;
+  readonly operation: LinkOperation;
+  readonly options?: LinkOptions;
+  readonly reached: Construct[];
+
+  /**
+   * The constructs the linkable has been tried on
+   */
+  readonly visited: Set<Construct>;
+}
+
+/**
+ * A `link()` call in progress
+ */
+export interface LinkOperation {
+  /**
+   * The construct `link()` was called on
+   */
+  readonly root: Construct;
+
+  /**
+   * Where the `link()` call was made
+   */
+  readonly linkCall: StackTrace;
+}
+
+/**
+ * A linkable that was applied to a construct, or a floating construct that was moved under it
+ */
+export interface LinkEvent extends Partial<LinkOperation> {
+  readonly kind: 'link' | 'reparent';
+  readonly linkable: ILinkable;
+  readonly target: Construct;
+}
+
+/**
+ * A linkable being applied to a construct
+ */
+export interface LinkContext extends Partial<LinkOperation> {
+  readonly linkable: ILinkable;
+  readonly target: Construct;
 }
 
 /**
  * Helper functions for linking objects
  */
 export class Linkable {
-  public static tryLink(linkable: ILinkable, target: Construct) {
+  /**
+   * The linkable currently being applied, if any
+   *
+   * Lets properties record which modifier changed them.
+   */
+  public static get current(): LinkContext | undefined {
+    return Linkable.contexts[Linkable.contexts.length - 1];
+  }
+
+  public static tryLink(linkable: ILinkable, target: Construct, operation?: LinkOperation): boolean {
     let result = false;
     if (linkable.linksTo.some(t => target.linksAs.includes(t))) {
-      linkable.linkTo(target);
-      result = true;
+      Linkable.contexts.push({ linkable, target, ...operation });
+      try {
+        result = linkable.linkTo(target) !== false;
+      } finally {
+        Linkable.contexts.pop();
+      }
+      if (result) {
+        target.linkEvents.push({ kind: 'link', linkable, target, ...operation });
+      }
     }
     if (process.env.DEBUG) {
       console.log(`${linkable} (${linkable.linksTo.join(',')}?) -> ${target} (${target.linksAs.join(',')}!): ${result}`);
     }
+    return result;
   }
+
+  private static readonly contexts = new Array<LinkContext>();
 }
 
 export class StackTrace {
@@ -151,6 +556,39 @@ export class StackTrace {
   }
 
   constructor(public readonly trace: string[]) {}
+
+  /**
+   * The frames outside this library, Node internals, built-ins and node_modules
+   */
+  public get userFrames(): string[] {
+    return this.trace.filter(f => !f.includes(LIBRARY_DIR) && !f.includes('node_modules') && !f.includes('node:') && !f.includes('(<anonymous>)'));
+  }
+
+  /**
+   * The innermost frame in user code, without the leading 'at'
+   */
+  public get userFrame(): string | undefined {
+    return this.userFrames[0]?.trim().replace(/^at /, '');
+  }
+
+  public toString() {
+    return this.trace.join('\n');
+  }
+}
+
+const LIBRARY_DIR = __dirname + path.sep;
+const MAX_SEAL_PASSES = 10;
+
+function addReached(reached: Map<ILinkable, Construct[]>, linkable: ILinkable, target: Construct) {
+  const targets = reached.get(linkable) ?? [];
+  if (!targets.includes(target)) {
+    targets.push(target);
+  }
+  reached.set(linkable, targets);
+}
+
+function isDefined<A>(x: A | undefined): x is A {
+  return x !== undefined;
 }
 
 export class Scope {
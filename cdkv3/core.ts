@@ -1,5 +1,10 @@
-import { Construct, StackTrace, ILinkable, Linkable } from "./construct";
-import { deepResolve, tokenToString } from "./tokens";
+import { Construct, StackTrace, ILinkable, Linkable, LinkContext } from "./construct";
+import { DependencyGraph } from "./dependencies";
+import { Fn } from "./fn";
+import { LogicalIds } from "./ids";
+import { Lens } from "./lens";
+import { Schema } from "./schema";
+import { deepResolve, isRenderable } from "./tokens";
 
 //////////////////////////////////////////////////////////////////////
 // RESOURCE
@@ -16,33 +21,61 @@ export class Resource extends Construct {
         ret.push(first);
       }
 
-      stack.push(...Object.values(first.children));
+      stack.push(...Object.values(first.children).filter(c => !c.isTemplateRoot));
     }
     return ret;
   }
 
   public static renderAll(scope: Construct) {
+    scope.seal();
     const res = Resource.findAll(scope);
 
     // Stabilize render
     res.sort((a, b) => a.constructPath.join('/').localeCompare(b.constructPath.join('/')));
+    LogicalIds.allocate(scope.templateRoot);
+    DependencyGraph.fromResources(res).assertAcyclic();
+
+    const missing = res.flatMap(r => r.missingProperties().length > 0
+      ? [`  ${r.constructPath.join('/')} (${r.resourceType}): ${r.missingProperties().join(', ')}`]
+      : []);
+    if (missing.length > 0) {
+      throw new Error(`Missing required properties:\n${missing.join('\n')}`);
+    }
 
     const ret = {};
     for (const r of res) {
       Object.assign(ret, r.render());
     }
 
-    return deepResolve(ret);
+    return deepResolve(ret, scope);
   }
 
   private readonly properties: Record<string, Property> = {};
+  private readonly slots = new Array<LinkableSlot<any>>();
+  private readonly attributes: Record<ResourceAttribute, Property> = {
+    DependsOn: new CollectionProperty(),
+    DeletionPolicy: new ScalarProperty(undefined, { schema: REMOVAL_POLICY }),
+    UpdateReplacePolicy: new ScalarProperty(undefined, { schema: REMOVAL_POLICY }),
+    Condition: new ScalarProperty(),
+    Metadata: new ScalarProperty(),
+  };
 
   constructor(scope: Construct, id: string, public readonly resourceType: string) {
     super(scope, id);
+    for (const [name, attr] of Object.entries(this.attributes)) {
+      attr.bind(this, name);
+    }
   }
 
   public get logicalId() {
-    return this.constructPath.join('');
+    return LogicalIds.of(this);
+  }
+
+  /**
+   * Use the given logical ID instead of the one derived from the construct path
+   */
+  public overrideLogicalId(logicalId: string) {
+    LogicalIds.override(this, logicalId);
   }
 
   protected addProperty(name: string, prop: Property) {
@@ -51,13 +84,123 @@ export class Resource extends Construct {
     }
 
     this.properties[name] = prop;
+    prop.bind(this, name);
+  }
+
+  /**
+   * Add the properties of a property table, then apply the props and linkables
+   *
+   * Every props value goes through the modifier the table maps it to, so
+   * props and modifiers share precedence, validation and provenance: a prop
+   * and a modifier that set different values conflict like any two modifiers.
+   * Props that are not in the table are left to the subclass.
+   */
+  protected declareProperties<P>(table: PropertyTable<P>, props: P | undefined, linkables: ILinkable[] | undefined) {
+    const declarations = Object.entries<PropertyDeclaration<any>>(table);
+    for (const [_, decl] of declarations) {
+      this.addProperty(decl.name, decl.create());
+    }
+
+    this.link([
+      ...declarations.flatMap(([key, decl]) => {
+        const value = props?.[key as keyof P];
+        return value !== undefined ? [decl.fromProps(value)].flat().map(m => new PropsModifier(key, m)) : [];
+      }),
+      ...linkables ?? [],
+    ]);
+
+    for (const [_, decl] of declarations) {
+      if (decl.references) {
+        this.addReference(decl.name, decl.references.resourceType, decl.references.attribute);
+      }
+    }
+  }
+
+  /**
+   * Fill the slot with the constructs this resource is linked to
+   *
+   * Rendering fails if a slot that takes one construct is still empty.
+   */
+  protected addLinkableSlot<A extends Construct>(slot: LinkableSlot<A>): LinkableSlot<A> {
+    this.slots.push(slot);
+    return this.connectSlot(slot);
+  }
+
+  /**
+   * Fill a property from the constructs this resource is linked to
+   *
+   * Every linked construct is mapped to a value with `tx`. A slot that takes
+   * many constructs fills a list, other slots fill a single value.
+   */
+  protected addLinkedProperty<A extends Construct>(name: string, slot: LinkableSlot<A>, tx: (x: A) => any, options?: PropertyOptions) {
+    const required = options?.required ?? slot.cardinality === 'one';
+    if (slot.cardinality === 'many') {
+      const prop = new CollectionProperty({ ...options, required });
+      slot.addElementObserver((x) => prop.add(tx(x)));
+      this.addProperty(name, prop);
+    } else {
+      const prop = new ScalarProperty(undefined, { ...options, required });
+      slot.addElementObserver((x) => prop.set(tx(x)));
+      this.addProperty(name, prop);
+    }
+    return this.connectSlot(slot);
+  }
+
+  /**
+   * Declare that a property holds references to resources of another type
+   *
+   * Linking this resource to a resource of that type fills the property with
+   * its `Ref` (or `Fn::GetAtt` of the attribute), and so does creating this
+   * resource inside one. A single value is only a default, values set
+   * explicitly win; a list gets every resource it is linked to, and the
+   * enclosing resource only if the list is still empty.
+   *
+   * A single value that could refer to more than one resource is an error.
+   */
+  protected addReference(name: string, resourceType: string, attribute?: string) {
+    const prop = this.property(name);
+    const referenced = new Array<Resource>();
+    const fill = (target: Resource) => {
+      if (referenced.includes(target)) {
+        return;
+      }
+      // A value set explicitly wins, so which resource we could refer to doesn't matter
+      if (prop instanceof ScalarProperty && prop.hasValue && prop.priority >= Priority.NORMAL) {
+        return;
+      }
+      if (prop instanceof ScalarProperty && referenced.length > 0) {
+        throw new Error(`${name} of ${this} could refer to ${referenced[0]} or ${target}, pass it explicitly to say which`);
+      }
+      referenced.push(target);
+
+      const value = attribute ? target.getAtt(attribute) : target.ref;
+      const source = Linkable.current?.linkable;
+      if (prop instanceof ScalarProperty) {
+        prop.set(value, { priority: Priority.DEFAULT, source });
+      } else {
+        (prop as CollectionProperty).add(value, source);
+      }
+    };
+
+    this.makeLinkableTo([resourceType], (target) => {
+      if (target instanceof Resource) {
+        fill(target);
+      }
+    });
+
+    const enclosing = this.ancestors.find(x => x instanceof Resource && x.linksAs.includes(resourceType));
+    const empty = prop instanceof ScalarProperty ? !prop.hasValue : (prop as CollectionProperty).value.length === 0;
+    if (enclosing && empty) {
+      fill(enclosing as Resource);
+    }
   }
 
-  protected addLinkableSlot(link: LinkableSlot): LinkableSlot {
-    this.makeLinkableTo(link.targets, (target) => {
-      link.set(target);
+  private connectSlot<A extends Construct>(slot: LinkableSlot<A>) {
+    slot.bind(this);
+    this.makeLinkableTo(slot.targets, (target) => {
+      slot.add(target);
     });
-    return link;
+    return slot;
   }
 
   public property(name: string) {
@@ -67,20 +210,118 @@ export class Resource extends Construct {
     return this.properties[name];
   }
 
+  /**
+   * Make this resource depend on another resource
+   *
+   * Renders as `DependsOn`. Dependencies that follow from references between
+   * resources don't need to be added explicitly.
+   */
+  public addDependency(other: Resource) {
+    (this.attributes.DependsOn as CollectionProperty).add(other);
+  }
+
+  public attribute(name: ResourceAttribute) {
+    return this.attributes[name];
+  }
+
+  /**
+   * The names of the required properties that don't have a value, and the required slots that are empty
+   */
+  public missingProperties(): string[] {
+    return [
+      ...Object.entries(this.properties).filter(([_, prop]) => prop.isMissing).map(([name]) => name),
+      ...this.slots.filter(slot => slot.isMissing).map(slot => `link to ${slot.targets.join(' or ')}`),
+    ];
+  }
+
   public render() {
+    const dependsOn = this.attributes.DependsOn.rendered().map(logicalIdOf);
+    const metadata = {
+      ...Object.fromEntries(this.metadata.map(e => [e.key, e.value])),
+      ...this.attributes.Metadata.rendered(),
+    };
+
     return {
       [this.logicalId]: {
         Type: this.resourceType,
-        Properties: Object.fromEntries(Object.entries(this.properties).map(([name, prop]) => [name, prop.rendered()])),
+        Properties: Object.fromEntries(Object.entries(this.properties)
+          .filter(([_, prop]) => !isEmptyOptionalCollection(prop))
+          .map(([name, prop]) => [name, prop.rendered()])),
+        ...dependsOn.length > 0 ? { DependsOn: dependsOn } : {},
+        ...renderedAttributes(this.attributes, ['DeletionPolicy', 'UpdateReplacePolicy']),
+        ...Object.keys(metadata).length > 0 ? { Metadata: metadata } : {},
+        ...this.attributes.Condition.value !== undefined ? { Condition: logicalIdOf(this.attributes.Condition.value) } : {},
       },
     };
   }
 
   public get ref() {
-    return tokenToString({ Ref: this.logicalId });
+    return Fn.ref(this);
+  }
+
+  public getAtt(attributeName: string) {
+    return Fn.getAtt(this, attributeName);
   }
 }
 
+/**
+ * The resource-level attributes that can be set on every resource
+ */
+export type ResourceAttribute = 'DependsOn' | 'DeletionPolicy' | 'UpdateReplacePolicy' | 'Condition' | 'Metadata';
+
+export type RemovalPolicy = 'Delete' | 'Retain' | 'Snapshot' | 'RetainExceptOnCreate';
+
+/**
+ * How a resource declares a property, and how its props value is applied
+ */
+export interface PropertyDeclaration<A> {
+  /**
+   * The name of the property in the template
+   */
+  readonly name: string;
+
+  create(): Property;
+
+  /**
+   * The modifier(s) that apply a props value, the same ones users can pass
+   */
+  fromProps(value: A): ILinkable | ILinkable[];
+
+  /**
+   * The type of resource the property refers to, see `addReference()`
+   */
+  readonly references?: { readonly resourceType: string; readonly attribute?: string };
+}
+
+/**
+ * The property declarations of a resource, by props key
+ */
+export type PropertyTable<P> = { readonly [K in keyof P]-?: PropertyDeclaration<NonNullable<P[K]>> };
+
+const REMOVAL_POLICY = Schema.enum('Delete', 'Retain', 'Snapshot', 'RetainExceptOnCreate');
+
+/**
+ * Lists that were never added to are left out, unless the resource requires them
+ */
+function isEmptyOptionalCollection(prop: Property) {
+  return prop instanceof CollectionProperty && !prop.required && prop.value.length === 0;
+}
+
+function renderedAttributes(attributes: Record<ResourceAttribute, Property>, names: ResourceAttribute[]) {
+  return Object.fromEntries(names
+    .map((name) => [name, attributes[name].rendered()])
+    .filter(([_, value]) => value !== undefined));
+}
+
+/**
+ * Turn a reference to a template element into its logical ID
+ *
+ * Strings are assumed to be logical IDs already.
+ */
+function logicalIdOf(x: any): string {
+  return x && typeof x === 'object' && typeof x.logicalId === 'string' ? x.logicalId : x;
+}
+
 //////////////////////////////////////////////////////////////////////
 // PROPERTIES
 
@@ -88,7 +329,30 @@ export interface IObservable {
   addObserver(obs: (x: any) => void): void;
 }
 
+/**
+ * A change to an observable value, and where it came from
+ */
+export interface PropertyWrite {
+  readonly operation: 'set' | 'add' | 'update' | 'remove' | 'clear';
+
+  /**
+   * The value that was set or added
+   */
+  readonly value: any;
+
+  readonly trace: StackTrace;
+
+  /**
+   * The linkable that made the change and the link() call that applied it, if any
+   */
+  readonly link?: LinkContext;
+}
+
 export abstract class Observable implements IObservable {
+  /**
+   * Every change made to the value, in order
+   */
+  public readonly history = new Array<PropertyWrite>();
   private readonly observers = new Array<(x: any) => void>();
 
   public addObserver(obs: (x: any) => void) {
@@ -100,13 +364,51 @@ export abstract class Observable implements IObservable {
       obs(x);
     }
   }
+
+  protected recordWrite(operation: PropertyWrite['operation'], value: any) {
+    this.history.push({ operation, value, trace: StackTrace.capture(), link: Linkable.current });
+  }
+}
+
+export interface PropertyOptions {
+  /**
+   * The shape of the value; for collections, the shape of each element
+   */
+  readonly schema?: Schema;
+
+  /**
+   * Whether rendering fails if the property has no value
+   *
+   * @default false
+   */
+  readonly required?: boolean;
 }
 
 export abstract class Property extends Observable implements IObservable {
   public abstract value: any;
+  public readonly schema?: Schema;
+  public readonly required: boolean;
+  private owner?: Construct;
+  private name?: string;
+
+  constructor(options?: PropertyOptions) {
+    super();
+    this.schema = options?.schema;
+    this.required = options?.required ?? false;
+  }
+
+  /**
+   * Record which construct this property belongs to, for error messages
+   */
+  public bind(owner: Construct, name: string) {
+    this.owner = owner;
+    this.name = name;
+  }
+
+  public abstract get isMissing(): boolean;
 
   public toString() {
-    return `${this.constructor.name}`;
+    return this.owner ? `${this.name} of ${this.owner}` : `${this.constructor.name}`;
   }
 
   public addObserver(obs: (x: any) => void) {
@@ -120,14 +422,66 @@ export abstract class Property extends Observable implements IObservable {
     const x = this.value;
     return isRenderable(x) ? x.render() : x;
   }
+
+  /**
+   * Throw if the value doesn't match the schema
+   *
+   * `source` is the modifier making the change, if it's not made at the call site.
+   */
+  protected validate(x: any, source?: ILinkable) {
+    const problems = this.schema?.validate(x) ?? [];
+    if (problems.length > 0) {
+      throw new Error(`Invalid value for ${this}: ${problems.join('; ')}` +
+        (source?.creationStack ? `\nModifier created at:\n${source.creationStack}` : ''));
+    }
+  }
+}
+
+/**
+ * How strongly a value is set
+ *
+ * A value replaces values of lower priority, and is ignored if the property
+ * already has a value of higher priority.
+ */
+export enum Priority {
+  /**
+   * A value that any other value replaces
+   */
+  DEFAULT = 0,
+  NORMAL = 1,
+
+  /**
+   * A value that replaces any other value
+   */
+  OVERRIDE = 2,
+}
+
+export interface WriteOptions {
+  /**
+   * The modifier making the change, for error messages
+   */
+  readonly source?: ILinkable;
+
+  /**
+   * The priority of the value
+   *
+   * If not given, the write is unconditional and the value gets NORMAL priority.
+   */
+  readonly priority?: Priority;
 }
 
 export class ScalarProperty extends Property {
   private _value: any | undefined;
+  private _priority = Priority.NORMAL;
+  private valueSource?: ILinkable;
   public changeTrace?: StackTrace;
 
-  constructor(initialValue?: any) {
-    super();
+  constructor(initialValue?: any, options?: PropertyOptions) {
+    super(options);
+    if (initialValue !== undefined) {
+      this.validate(initialValue);
+      this.recordWrite('set', initialValue);
+    }
     this._value = initialValue;
   }
 
@@ -135,29 +489,108 @@ export class ScalarProperty extends Property {
     return this._value !== undefined;
   }
 
+  public get isMissing() {
+    return this.required && !this.hasValue;
+  }
+
   public get value() {
     return this._value;
   }
 
-  public set(x: any) {
+  public get priority() {
+    return this._priority;
+  }
+
+  public set(x: any, options?: WriteOptions) {
+    if (options?.priority !== undefined && this.hasValue) {
+      if (options.priority < this._priority) {
+        return;
+      }
+      if (options.priority === this._priority && valueToString(x) !== valueToString(this._value)) {
+        throw new Error([
+          `Conflicting values for ${this}:`,
+          `  ${valueToString(this._value)} ${describeSource(this.valueSource, this.changeTrace)}`,
+          `  ${valueToString(x)} ${describeSource(options.source, StackTrace.capture())}`,
+          'Use .default() or .override() to say which one should win.',
+        ].join('\n'));
+      }
+    }
+
+    this.validate(x, options?.source);
+    this.recordWrite('set', x);
     this.changeTrace = StackTrace.capture();
     this._value = x;
+    this._priority = options?.priority ?? Priority.NORMAL;
+    this.valueSource = options?.source;
+    this.fire(this._value);
+  }
+
+  /**
+   * Replace the value with a changed version, keeping its priority
+   *
+   * A property without a value gets the changed version at NORMAL priority.
+   */
+  public update(fn: (x: any) => any, source?: ILinkable) {
+    if (!this.hasValue) {
+      this.set(fn(undefined), { source });
+      return;
+    }
+
+    const updated = fn(this._value);
+    this.validate(updated, source);
+    this.recordWrite('update', updated);
+    this.changeTrace = StackTrace.capture();
+    this._value = updated;
+    this.valueSource = source;
     this.fire(this._value);
   }
 }
 
+function describeSource(source: ILinkable | undefined, trace: StackTrace | undefined) {
+  return source
+    ? `from ${source}, created at ${source.creationStack?.userFrame}`
+    : `set at ${trace?.userFrame}`;
+}
+
 export class CollectionProperty extends Property {
-  private _value: any[] = [];
+  protected _value: any[] = [];
+
+  constructor(options?: PropertyOptions) {
+    super(options);
+  }
 
   public get value() {
     return this._value;
   }
 
-  public add(x: any) {
+  public get isMissing() {
+    return this.required && this._value.length === 0;
+  }
+
+  public add(x: any, source?: ILinkable) {
+    this.validate(x, source);
+    this.recordWrite('add', x);
     this._value.push(x);
     this.fire(this._value);
   }
 
+  /**
+   * Replace the elements with a changed version
+   */
+  public update(fn: (xs: any[]) => any[], source?: ILinkable) {
+    const updated = fn(this._value);
+    updated.forEach(x => this.validate(x, source));
+    this.recordWrite('update', updated);
+    this._value = updated;
+    this.fire(this._value);
+  }
+
+  public clear() {
+    this.recordWrite('clear', undefined);
+    this._value = [];
+    this.fire(this._value);
+  }
+
   public addObserver(obs: (x: any) => void) {
     super.addObserver(obs);
     if (this.value !== undefined) {
@@ -166,49 +599,233 @@ export class CollectionProperty extends Property {
   }
 }
 
+export interface KeyedCollectionOptions extends PropertyOptions {
+  /**
+   * The field of the elements that identifies them
+   *
+   * @default - the elements themselves
+   */
+  readonly key?: string;
+
+  /**
+   * Render the elements in key order instead of the order they were added in
+   *
+   * @default false
+   */
+  readonly sorted?: boolean;
+}
+
+/**
+ * A collection with at most one element per key
+ *
+ * Adding an element with a key that is already present replaces the existing
+ * element, in place.
+ */
+export class KeyedCollectionProperty extends CollectionProperty {
+  private readonly key?: string;
+  private readonly sorted: boolean;
+
+  constructor(options?: KeyedCollectionOptions) {
+    super(options);
+    this.key = options?.key;
+    this.sorted = options?.sorted ?? false;
+  }
+
+  public get value() {
+    if (!this.sorted) {
+      return this._value;
+    }
+    return [...this._value].sort((a, b) => this.keyOf(a).localeCompare(this.keyOf(b)));
+  }
+
+  public add(x: any, source?: ILinkable) {
+    const i = this._value.findIndex(e => this.keyOf(e) === this.keyOf(x));
+    if (i === -1) {
+      super.add(x, source);
+      return;
+    }
+
+    this.validate(x, source);
+    this.recordWrite('add', x);
+    this._value[i] = x;
+    this.fire(this._value);
+  }
+
+  /**
+   * Replace the elements with a changed version, keeping the last element for every key
+   */
+  public update(fn: (xs: any[]) => any[], source?: ILinkable) {
+    super.update((xs) => {
+      const ret = new Array<any>();
+      const indexes = new Map<string, number>();
+      for (const x of fn(xs)) {
+        const i = indexes.get(this.keyOf(x));
+        if (i === undefined) {
+          indexes.set(this.keyOf(x), ret.length);
+          ret.push(x);
+        } else {
+          ret[i] = x;
+        }
+      }
+      return ret;
+    }, source);
+  }
+
+  /**
+   * Remove the element with the given key, if present
+   */
+  public remove(key: any) {
+    this.recordWrite('remove', key);
+    this._value = this._value.filter(e => this.keyOf(e) !== valueToString(key));
+    this.fire(this._value);
+  }
+
+  private keyOf(x: any): string {
+    return valueToString(this.key !== undefined ? x[this.key] : x);
+  }
+}
+
+/**
+ * How many constructs a slot links to
+ *
+ * - 'one': exactly one; rendering fails if the slot is empty
+ * - 'optional': at most one
+ * - 'many': any number
+ */
+export type SlotCardinality = 'one' | 'optional' | 'many';
+
+export interface LinkableSlotOptions<A extends Construct> {
+  /**
+   * @default 'optional'
+   */
+  readonly cardinality?: SlotCardinality;
+
+  /**
+   * The class of the constructs the slot accepts
+   *
+   * @default - any construct
+   */
+  readonly type?: new (...args: any[]) => A;
+}
+
 /**
- * An object that represents a link to a construct
+ * An object that represents links to constructs
+ *
+ * Observers get the linked construct, or the list of them if the slot takes
+ * many. Element observers get every linked construct, one at a time.
  */
-export class LinkableSlot extends Observable {
-  private _value: Construct | undefined;
+export class LinkableSlot<A extends Construct = Construct> extends Observable {
+  public static one<A extends Construct = Construct>(targets: string[], type?: new (...args: any[]) => A) {
+    return new LinkableSlot<A>(targets, undefined, { cardinality: 'one', type });
+  }
+
+  public static optional<A extends Construct = Construct>(targets: string[], type?: new (...args: any[]) => A) {
+    return new LinkableSlot<A>(targets, undefined, { cardinality: 'optional', type });
+  }
+
+  public static many<A extends Construct = Construct>(targets: string[], type?: new (...args: any[]) => A) {
+    return new LinkableSlot<A>(targets, undefined, { cardinality: 'many', type });
+  }
+
+  public readonly cardinality: SlotCardinality;
+  private readonly type?: new (...args: any[]) => A;
+  private readonly _values = new Array<A>();
+  private readonly elementObservers = new Array<(x: A) => void>();
+  private owner?: Construct;
   public changeTrace?: StackTrace;
 
-  constructor(public readonly targets: string[], initialValue?: Construct) {
+  constructor(public readonly targets: string[], initialValue?: A, options?: LinkableSlotOptions<A>) {
     super();
+    this.cardinality = options?.cardinality ?? 'optional';
+    this.type = options?.type;
     if (initialValue !== undefined) {
       this.set(initialValue);
     }
   }
 
+  /**
+   * Record which construct this slot belongs to, for error messages
+   */
+  public bind(owner: Construct) {
+    this.owner = owner;
+  }
+
   public get hasValue() {
-    return this._value !== undefined;
+    return this._values.length > 0;
   }
 
-  public get value() {
-    return this._value;
+  public get isMissing() {
+    return this.cardinality === 'one' && !this.hasValue;
+  }
+
+  /**
+   * The linked construct, or the list of them if the slot takes many
+   */
+  public get value(): any {
+    return this.cardinality === 'many' ? this.values : this._values[0];
   }
 
-  public set(x: Construct) {
-    if (this._value !== undefined) {
-      throw new Error('Link already has a value');
+  public get values(): A[] {
+    return [...this._values];
+  }
+
+  public set(x: A) {
+    if (this.cardinality === 'many') {
+      throw new Error(`${this} takes many constructs, use add() instead of set()`);
     }
-    this._value = x;
-    this.changeTrace = StackTrace.capture();
-    this.fire(this._value);
+    if (this.hasValue) {
+      throw new Error(`${this} already links to ${this._values[0]}, cannot also link to ${x}`);
+    }
+    this.accept('set', x);
   }
 
-  public addObserver(obs: (x: Construct) => void) {
+  public add(x: A) {
+    if (this.cardinality !== 'many') {
+      this.set(x);
+      return;
+    }
+    if (!this._values.includes(x)) {
+      this.accept('add', x);
+    }
+  }
+
+  public addObserver(obs: (x: any) => void) {
     super.addObserver(obs);
-    if (this.value !== undefined) {
+    if (this.hasValue) {
       obs(this.value);
     }
   }
+
+  /**
+   * Call a function on every construct linked to this slot, now and later
+   */
+  public addElementObserver(obs: (x: A) => void) {
+    this.elementObservers.push(obs);
+    this._values.forEach(obs);
+  }
+
+  public toString() {
+    return `${this.constructor.name}(${this.targets.join(', ')})` + (this.owner ? ` of ${this.owner}` : '');
+  }
+
+  private accept(operation: PropertyWrite['operation'], x: A) {
+    if (this.type && !(x instanceof this.type)) {
+      throw new Error(`${this} only accepts ${this.type.name}, got ${x}`);
+    }
+    this._values.push(x);
+    this.recordWrite(operation, x);
+    this.changeTrace = StackTrace.capture();
+    this.fire(this.value);
+    for (const obs of this.elementObservers) {
+      obs(x);
+    }
+  }
 }
 
 export class DerivedProperty extends ScalarProperty {
-  constructor(observed: IObservable, tx: (x: any) => any) {
+  constructor(public readonly source: IObservable, tx: (x: any) => any) {
     super();
-    observed.addObserver((x) => {
+    source.addObserver((x) => {
       this.set(tx(x));
     });
   }
@@ -217,8 +834,49 @@ export class DerivedProperty extends ScalarProperty {
 //////////////////////////////////////////////////////////////////////
 // TWEAKS
 
+/**
+ * The modifier to blame for a write: the linkable being applied, which may wrap the tweak
+ */
+function modifierSource(tweak: ILinkable) {
+  return Linkable.current?.linkable ?? tweak;
+}
+
+/**
+ * A modifier applied for a value in the props, described as `props.<key>`
+ */
+class PropsModifier implements ILinkable {
+  constructor(private readonly key: string, private readonly inner: ILinkable) {
+  }
+
+  public get linksTo() {
+    return this.inner.linksTo;
+  }
+
+  public get creationStack() {
+    return this.inner.creationStack;
+  }
+
+  public linkTo(target: Construct) {
+    return this.inner.linkTo(target);
+  }
+
+  public finishLink(root: Construct) {
+    this.inner.finishLink?.(root);
+  }
+
+  public toString() {
+    return `props.${this.key}`;
+  }
+}
+
 export class ScalarTweak implements ILinkable {
-  constructor(public readonly resourceType: string, public readonly property: string, public readonly value: any) {
+  public readonly creationStack = StackTrace.capture();
+
+  constructor(
+    public readonly resourceType: string,
+    public readonly property: string,
+    public readonly value: any,
+    public readonly priority = Priority.NORMAL) {
   }
 
   public get linksTo() {
@@ -235,19 +893,18 @@ export class ScalarTweak implements ILinkable {
       throw new Error(`ScalarTweak expects ScalarProperty, got ${prop}`);
     }
 
-    if (prop.hasValue) {
-      throw new Error(`${this.resourceType} ${this.property} already has a value`);
-    }
-
-    prop.set(this.value);
+    prop.set(this.value, { source: modifierSource(this), priority: this.priority });
   }
 
   public toString() {
-    return `${this.constructor.name}(${JSON.stringify(this.resourceType)}, ${JSON.stringify(this.property)}, ${JSON.stringify(this.value)})`;
+    const priority = this.priority !== Priority.NORMAL ? `, ${Priority[this.priority]}` : '';
+    return `${this.constructor.name}(${JSON.stringify(this.resourceType)}, ${JSON.stringify(this.property)}, ${valueToString(this.value)}${priority})`;
   }
 }
 
 export class CollectionTweak implements ILinkable {
+  public readonly creationStack = StackTrace.capture();
+
   constructor(public readonly resourceType: string, public readonly collection: string, public readonly value: any) {
   }
 
@@ -264,16 +921,195 @@ export class CollectionTweak implements ILinkable {
     if (!(prop instanceof CollectionProperty)) {
       throw new Error(`ListTweak expects ListProperty, got ${prop}`);
     }
-    prop.add(this.value);
+    prop.add(this.value, modifierSource(this));
   }
 
   public toString() {
-    return `${this.constructor.name}(${JSON.stringify(this.resourceType)}, ${JSON.stringify(this.collection)}, ${JSON.stringify(this.value)})`;
+    return `${this.constructor.name}(${JSON.stringify(this.resourceType)}, ${JSON.stringify(this.collection)}, ${valueToString(this.value)})`;
   }
 }
 
+/**
+ * Remove an element from a keyed collection
+ */
+export class RemoveTweak implements ILinkable {
+  public readonly creationStack = StackTrace.capture();
+
+  constructor(public readonly resourceType: string, public readonly collection: string, public readonly key: any) {
+  }
+
+  public get linksTo() {
+    return [this.resourceType];
+  }
+
+  public linkTo(res: Construct) {
+    if (!(res instanceof Resource)) {
+      throw new Error(`Expected Resource to link, got ${res}`);
+    }
+
+    const prop = res.property(this.collection);
+    if (!(prop instanceof KeyedCollectionProperty)) {
+      throw new Error(`RemoveTweak expects KeyedCollectionProperty, got ${prop}`);
+    }
+    prop.remove(this.key);
+  }
+
+  public toString() {
+    return `${this.constructor.name}(${JSON.stringify(this.resourceType)}, ${JSON.stringify(this.collection)}, ${valueToString(this.key)})`;
+  }
+}
+
+/**
+ * Remove all elements from a collection
+ */
+export class ClearTweak implements ILinkable {
+  public readonly creationStack = StackTrace.capture();
+
+  constructor(public readonly resourceType: string, public readonly collection: string) {
+  }
+
+  public get linksTo() {
+    return [this.resourceType];
+  }
+
+  public linkTo(res: Construct) {
+    if (!(res instanceof Resource)) {
+      throw new Error(`Expected Resource to link, got ${res}`);
+    }
+
+    const prop = res.property(this.collection);
+    if (!(prop instanceof CollectionProperty)) {
+      throw new Error(`ClearTweak expects CollectionProperty, got ${prop}`);
+    }
+    prop.clear();
+  }
+
+  public toString() {
+    return `${this.constructor.name}(${JSON.stringify(this.resourceType)}, ${JSON.stringify(this.collection)})`;
+  }
+}
+
+/**
+ * Apply a lens to a property, to change part of its value
+ *
+ * An unset scalar property starts out as an empty object.
+ */
+export class LensTweak implements ILinkable {
+  public readonly creationStack = StackTrace.capture();
+
+  constructor(public readonly resourceType: string, public readonly property: string, public readonly lens: Lens) {
+  }
+
+  public get linksTo() {
+    return [this.resourceType];
+  }
+
+  public linkTo(res: Construct) {
+    if (!(res instanceof Resource)) {
+      throw new Error(`Expected Resource to link, got ${res}`);
+    }
+
+    const prop = res.property(this.property);
+    if (prop instanceof ScalarProperty) {
+      prop.update((x) => this.lens.apply(x ?? {}), modifierSource(this));
+    } else if (prop instanceof CollectionProperty) {
+      prop.update((xs) => this.lens.apply(xs), modifierSource(this));
+    } else {
+      throw new Error(`LensTweak expects ScalarProperty or CollectionProperty, got ${prop}`);
+    }
+  }
+
+  public toString() {
+    return `${this.constructor.name}(${JSON.stringify(this.resourceType)}, ${JSON.stringify(this.property)}, ${this.lens})`;
+  }
+}
+
+export class AttributeTweak implements ILinkable {
+  public readonly creationStack = StackTrace.capture();
+
+  constructor(public readonly resourceType: string, public readonly attribute: ResourceAttribute, public readonly value: any) {
+  }
+
+  public get linksTo() {
+    return [this.resourceType];
+  }
+
+  public linkTo(res: Construct) {
+    if (!(res instanceof Resource)) {
+      throw new Error(`Expected Resource to link, got ${res}`);
+    }
+
+    const attr = res.attribute(this.attribute);
+    if (attr instanceof CollectionProperty) {
+      attr.add(this.value, modifierSource(this));
+      return;
+    }
+
+    if (!(attr instanceof ScalarProperty)) {
+      throw new Error(`AttributeTweak expects ScalarProperty, got ${attr}`);
+    }
+
+    attr.set(this.value, { source: modifierSource(this), priority: Priority.NORMAL });
+  }
+
+  public toString() {
+    return `${this.constructor.name}(${JSON.stringify(this.resourceType)}, ${JSON.stringify(this.attribute)}, ${valueToString(this.value)})`;
+  }
+}
+
+/**
+ * Factories for tweaks that set resource attributes
+ */
+export class ResourceAttributes {
+  /**
+   * Add a dependency on another resource, given as a Resource or a logical ID
+   */
+  public static DependsOn(resourceType: string, dependency: Resource | string) {
+    return new AttributeTweak(resourceType, 'DependsOn', dependency);
+  }
+
+  public static DeletionPolicy(resourceType: string, policy: RemovalPolicy) {
+    return new AttributeTweak(resourceType, 'DeletionPolicy', policy);
+  }
+
+  public static UpdateReplacePolicy(resourceType: string, policy: RemovalPolicy) {
+    return new AttributeTweak(resourceType, 'UpdateReplacePolicy', policy);
+  }
+
+  /**
+   * Only create the resource if the given condition holds, given as a Condition or its logical ID
+   */
+  public static Condition(resourceType: string, condition: { readonly logicalId: string } | string) {
+    return new AttributeTweak(resourceType, 'Condition', condition);
+  }
+
+  public static Metadata(resourceType: string, metadata: Record<string, any>) {
+    return new AttributeTweak(resourceType, 'Metadata', metadata);
+  }
+}
+
+/**
+ * A tweak factory, with variants that set the value at a different priority
+ *
+ * `Bucket.BucketName('x')` sets a normal value, `Bucket.BucketName.default('x')`
+ * one that anything else replaces and `Bucket.BucketName.override('x')` one
+ * that replaces anything else.
+ */
+export type PrioritizedFactory<A extends any[], T> = ((...args: A) => T) & {
+  default(...args: A): T;
+  override(...args: A): T;
+};
+
+export function prioritized<A extends any[], T>(factory: (priority: Priority) => (...args: A) => T): PrioritizedFactory<A, T> {
+  return Object.assign(factory(Priority.NORMAL), {
+    default: factory(Priority.DEFAULT),
+    override: factory(Priority.OVERRIDE),
+  });
+}
+
 export class LinkingTweak implements ILinkable {
   public readonly linksTo: string[] = [];
+  public readonly creationStack = StackTrace.capture();
   private left?: any;
   private fired = false;
 
@@ -290,12 +1126,15 @@ export class LinkingTweak implements ILinkable {
       this.onlink(this.left);
     }
   }
-}
 
-export interface IRenderable {
-  render(): any;
+  public toString() {
+    return `${this.constructor.name}(${JSON.stringify(this.leftTarget)})`;
+  }
 }
 
-export function isRenderable(x: any): x is IRenderable {
-  return x && typeof x === 'object' && (x as IRenderable).render;
-}
\ No newline at end of file
+/**
+ * Describe a value for messages, with constructs as their paths
+ */
+export function valueToString(x: any): string {
+  return JSON.stringify(x, (_, v) => v instanceof Construct ? `${v}` : v) ?? `${x}`;
+}
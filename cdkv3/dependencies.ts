@@ -0,0 +1,88 @@
+import type { Resource } from "./core";
+import { findTokens } from "./tokens";
+
+/**
+ * The dependencies between a set of resources
+ *
+ * Dependencies come from tokens referencing other resources (e.g. `bucket.ref`
+ * in a property) and from explicit `DependsOn` attributes.
+ */
+export class DependencyGraph {
+  public static fromResources(resources: Resource[]): DependencyGraph {
+    const graph = new DependencyGraph(resources);
+    const byLogicalId = new Map(resources.map(r => [r.logicalId, r]));
+
+    for (const res of resources) {
+      for (const token of findTokens(res.render(), res)) {
+        if (token.producer !== res && graph.edges.has(token.producer as Resource)) {
+          graph.addDependency(res, token.producer as Resource);
+        }
+      }
+
+      for (const dep of res.attribute('DependsOn').value as Array<Resource | string>) {
+        const target = typeof dep === 'string' ? byLogicalId.get(dep) : dep;
+        if (target) {
+          graph.addDependency(res, target);
+        }
+      }
+    }
+
+    return graph;
+  }
+
+  private readonly edges = new Map<Resource, Set<Resource>>();
+
+  constructor(resources: Resource[]) {
+    for (const res of resources) {
+      this.edges.set(res, new Set());
+    }
+  }
+
+  public addDependency(from: Resource, to: Resource) {
+    this.edges.get(from)?.add(to);
+  }
+
+  public dependenciesOf(res: Resource): Resource[] {
+    return Array.from(this.edges.get(res) ?? []);
+  }
+
+  /**
+   * Return the resources so that every resource comes after the resources it depends on
+   */
+  public topologicalOrder(): Resource[] {
+    const ret = new Array<Resource>();
+    const visiting = new Array<Resource>();
+    const done = new Set<Resource>();
+
+    const visit = (res: Resource) => {
+      if (done.has(res)) { return; }
+
+      const i = visiting.indexOf(res);
+      if (i > -1) {
+        const cycle = [...visiting.slice(i), res];
+        throw new Error(`Dependency cycle between resources: ${cycle.map(r => r.constructPath.join('/')).join(' -> ')}`);
+      }
+
+      visiting.push(res);
+      for (const dep of this.dependenciesOf(res)) {
+        visit(dep);
+      }
+      visiting.pop();
+
+      done.add(res);
+      ret.push(res);
+    };
+
+    for (const res of this.edges.keys()) {
+      visit(res);
+    }
+    return ret;
+  }
+
+  /**
+   * Throw an error describing the cycle if the resources depend on each other cyclically
+   */
+  public assertAcyclic() {
+    this.topologicalOrder();
+  }
+}
@@ -0,0 +1,353 @@
+import { PROPERTY_UPDATE_TYPES } from "./resources.generated";
+
+/**
+ * The differences between two templates
+ *
+ * ```ts
+ * const diff = TemplateDiff.between(Resource.renderAll(before()), Resource.renderAll(after()));
+ * console.log(diff.toString({ color: true }));
+ * ```
+ *
+ * Templates are either complete templates (with a `Resources` section) or the
+ * resources alone, as `Resource.renderAll()` returns them.
+ *
+ * A resource that disappears while a resource of the same type with mostly
+ * the same properties appears is reported as renamed. References to the old
+ * logical ID count as references to the new one, so a rename doesn't show up
+ * as a change to every resource that refers to it.
+ */
+export class TemplateDiff {
+  public static between(oldTemplate: Record<string, any>, newTemplate: Record<string, any>): TemplateDiff {
+    const before = splitTemplate(oldTemplate);
+    const after = splitTemplate(newTemplate);
+    const renames = findRenames(before.resources, after.resources);
+    const renamedFrom = new Map(Array.from(renames.entries()).map(([o, n]) => [n, o]));
+    const oldResources = renameReferences(before.resources, renames);
+
+    const resources = new Array<ResourceDiff>();
+    for (const [id, resource] of Object.entries(before.resources)) {
+      if (!renames.has(id) && !sameType(resource, after.resources[id])) {
+        resources.push({ change: 'removed', type: resource.Type, logicalId: id, replacement: 'none', changes: [], oldValue: resource });
+      }
+    }
+    for (const [id, resource] of Object.entries(after.resources)) {
+      const oldId = renamedFrom.get(id) ?? id;
+      const old = oldResources[oldId];
+      if (!renamedFrom.has(id) && !sameType(old, resource)) {
+        resources.push({ change: 'added', type: resource.Type, logicalId: id, replacement: 'none', changes: [], newValue: resource });
+        continue;
+      }
+
+      const changes = diffValues(withoutType(old), withoutType(resource), [])
+        .map(d => withUpdateType(d, resource.Type));
+      if (changes.length === 0 && oldId === id) {
+        continue;
+      }
+      resources.push({
+        change: oldId === id ? 'changed' : 'renamed',
+        type: resource.Type,
+        logicalId: id,
+        ...oldId !== id ? { oldLogicalId: oldId } : {},
+        replacement: oldId !== id ? 'replace' : replacementOf(changes),
+        changes,
+      });
+    }
+
+    const otherChanges = diffValues(renameReferences(before.other, renames), after.other, []);
+    resources.sort((a, b) => a.logicalId.localeCompare(b.logicalId));
+    return new TemplateDiff(resources, otherChanges);
+  }
+
+  private constructor(
+    public readonly resources: ResourceDiff[],
+    /**
+     * Changes to template sections other than `Resources`
+     */
+    public readonly otherChanges: ValueDiff[]) {
+  }
+
+  public get isEmpty() {
+    return this.resources.length === 0 && this.otherChanges.length === 0;
+  }
+
+  /**
+   * The resources that will be replaced, or may be replaced, by deploying the new template
+   */
+  public get replacements(): ResourceDiff[] {
+    return this.resources.filter(r => r.replacement !== 'none');
+  }
+
+  public toJson(): TemplateDiffJson {
+    return { resources: this.resources, otherChanges: this.otherChanges };
+  }
+
+  /**
+   * Describe the differences in unified diff style
+   */
+  public toString(options?: DiffFormatOptions): string {
+    const paint = options?.color ? (code: string, text: string) => `\x1b[${code}m${text}\x1b[0m` : (_: string, text: string) => text;
+    const lines = new Array<string>();
+    for (const r of this.resources) {
+      const title = r.oldLogicalId ? `${r.oldLogicalId} -> ${r.logicalId}` : r.logicalId;
+      const note = REPLACEMENT_NOTES[r.replacement];
+      lines.push(paint(CHANGE_COLORS[r.change], `${CHANGE_MARKS[r.change]} ${r.type} ${title}`)
+        + (note ? ' ' + paint(REPLACEMENT_COLOR, note) : ''));
+      if (r.oldValue !== undefined || r.newValue !== undefined) {
+        lines.push(...valueLines(r.oldValue ?? r.newValue, `${CHANGE_MARKS[r.change]}   `).map(l => paint(CHANGE_COLORS[r.change], l)));
+      }
+      lines.push(...r.changes.flatMap(c => changeLines(c, '    ', paint)));
+    }
+    if (this.otherChanges.length > 0) {
+      lines.push('Other changes');
+      lines.push(...this.otherChanges.flatMap(c => changeLines(c, '    ', paint)));
+    }
+    return lines.join('\n');
+  }
+}
+
+export interface DiffFormatOptions {
+  /**
+   * Color the output with ANSI escape codes
+   *
+   * @default false
+   */
+  readonly color?: boolean;
+}
+
+export type ResourceChange = 'added' | 'removed' | 'changed' | 'renamed';
+
+/**
+ * Whether deploying the change replaces the resource
+ *
+ * Renamed resources are always replaced: CloudFormation creates the resource
+ * with the new logical ID and deletes the old one.
+ */
+export type Replacement = 'none' | 'conditional' | 'replace';
+
+export interface ResourceDiff {
+  readonly change: ResourceChange;
+  readonly type: string;
+
+  /**
+   * The logical ID in the new template, or in the old template for removed resources
+   */
+  readonly logicalId: string;
+
+  /**
+   * The logical ID in the old template, for renamed resources
+   */
+  readonly oldLogicalId?: string;
+
+  readonly replacement: Replacement;
+
+  /**
+   * The changes to the resource, for changed and renamed resources
+   */
+  readonly changes: ValueDiff[];
+
+  /**
+   * The complete resource, for removed and added resources
+   */
+  readonly oldValue?: any;
+  readonly newValue?: any;
+}
+
+export interface ValueDiff {
+  readonly change: 'added' | 'removed' | 'changed';
+
+  /**
+   * Where in the resource (or template) the value is, e.g. `['Properties', 'BucketName']`
+   */
+  readonly path: string[];
+  readonly oldValue?: any;
+  readonly newValue?: any;
+
+  /**
+   * How the resource specification says changes to the property are deployed, for resource properties
+   */
+  readonly updateType?: 'Mutable' | 'Immutable' | 'Conditional';
+}
+
+export interface TemplateDiffJson {
+  readonly resources: ResourceDiff[];
+  readonly otherChanges: ValueDiff[];
+}
+
+/**
+ * How similar two resources of the same type must be to count as a rename
+ *
+ * The fraction of property values (leaves of the property tree) that they
+ * have in common.
+ */
+const RENAME_SIMILARITY = 0.5;
+
+const CHANGE_MARKS: Record<ResourceChange | ValueDiff['change'], string> = {
+  added: '+',
+  removed: '-',
+  changed: '~',
+  renamed: '~',
+};
+
+const CHANGE_COLORS: Record<ResourceChange, string> = {
+  added: '32',
+  removed: '31',
+  changed: '33',
+  renamed: '33',
+};
+
+const REPLACEMENT_COLOR = '1;31';
+
+const REPLACEMENT_NOTES: Record<Replacement, string | undefined> = {
+  none: undefined,
+  conditional: '(may be replaced)',
+  replace: '(replaced)',
+};
+
+function splitTemplate(template: Record<string, any>) {
+  const isFullTemplate = template.Resources && typeof template.Resources === 'object' && typeof template.Resources.Type !== 'string';
+  if (!isFullTemplate) {
+    return { resources: template, other: {} };
+  }
+  const { Resources, ...other } = template;
+  return { resources: Resources as Record<string, any>, other };
+}
+
+/**
+ * Pair up removed and added resources of the same type that are similar enough, most similar first
+ */
+function findRenames(before: Record<string, any>, after: Record<string, any>): Map<string, string> {
+  const removed = Object.keys(before).filter(id => !sameType(before[id], after[id]));
+  const added = Object.keys(after).filter(id => !sameType(before[id], after[id]));
+  const candidates = removed.flatMap(o => added
+    .filter(n => before[o].Type === after[n].Type)
+    .map(n => ({ o, n, similarity: similarity(before[o].Properties, after[n].Properties) })))
+    .filter(c => c.similarity >= RENAME_SIMILARITY)
+    .sort((a, b) => b.similarity - a.similarity);
+
+  const ret = new Map<string, string>();
+  const taken = new Set<string>();
+  for (const { o, n } of candidates) {
+    if (!ret.has(o) && !taken.has(n)) {
+      ret.set(o, n);
+      taken.add(n);
+    }
+  }
+  return ret;
+}
+
+function similarity(a: any, b: any) {
+  const leavesA = leaves(a ?? {});
+  const leavesB = leaves(b ?? {});
+  const paths = new Set([...leavesA.keys(), ...leavesB.keys()]);
+  if (paths.size === 0) {
+    return 1;
+  }
+  const common = Array.from(paths).filter(p => leavesA.has(p) && leavesA.get(p) === leavesB.get(p));
+  return common.length / paths.size;
+}
+
+function leaves(x: any, path = '', ret = new Map<string, string>()): Map<string, string> {
+  if (x && typeof x === 'object' && Object.keys(x).length > 0) {
+    for (const [k, v] of Object.entries(x)) {
+      leaves(v, `${path}/${k}`, ret);
+    }
+  } else {
+    ret.set(path, JSON.stringify(x));
+  }
+  return ret;
+}
+
+/**
+ * Replace references to renamed logical IDs with references to their new IDs
+ */
+function renameReferences(x: any, renames: Map<string, string>, key?: string): any {
+  const rename = (id: any) => typeof id === 'string' ? renames.get(id) ?? id : id;
+  if (Array.isArray(x)) {
+    return key === 'DependsOn' ? x.map(rename) : x.map(e => renameReferences(e, renames));
+  }
+  if (!x || typeof x !== 'object') {
+    return key === 'DependsOn' || key === 'Ref' ? rename(x) : x;
+  }
+  return Object.fromEntries(Object.entries(x).map(([k, v]) => {
+    if (k === 'Fn::GetAtt') {
+      return [k, Array.isArray(v) ? [rename(v[0]), ...v.slice(1)] : renameGetAttString(v, renames)];
+    }
+    return [k, renameReferences(v, renames, k)];
+  }));
+}
+
+function renameGetAttString(x: any, renames: Map<string, string>) {
+  if (typeof x !== 'string') {
+    return x;
+  }
+  const [id, ...attr] = x.split('.');
+  return [renames.get(id) ?? id, ...attr].join('.');
+}
+
+/**
+ * The differences between two values
+ *
+ * Objects are compared key by key, and arrays of the same length element by
+ * element. Anything else is changed as a whole.
+ */
+function diffValues(a: any, b: any, path: string[]): ValueDiff[] {
+  if (a === undefined && b === undefined) {
+    return [];
+  }
+  if (a === undefined) {
+    return [{ change: 'added', path, newValue: b }];
+  }
+  if (b === undefined) {
+    return [{ change: 'removed', path, oldValue: a }];
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)]));
+    return keys.flatMap(k => diffValues(a[k], b[k], [...path, k]));
+  }
+  if (Array.isArray(a) && Array.isArray(b) && a.length === b.length) {
+    return a.flatMap((e, i) => diffValues(e, b[i], [...path, `${i}`]));
+  }
+  return JSON.stringify(a) === JSON.stringify(b) ? [] : [{ change: 'changed', path, oldValue: a, newValue: b }];
+}
+
+function withUpdateType(d: ValueDiff, type: string): ValueDiff {
+  if (d.path[0] !== 'Properties' || d.path.length < 2) {
+    return d;
+  }
+  return { ...d, updateType: PROPERTY_UPDATE_TYPES[type]?.[d.path[1]] ?? 'Mutable' };
+}
+
+function replacementOf(changes: ValueDiff[]): Replacement {
+  if (changes.some(c => c.updateType === 'Immutable')) {
+    return 'replace';
+  }
+  return changes.some(c => c.updateType === 'Conditional') ? 'conditional' : 'none';
+}
+
+function changeLines(c: ValueDiff, indent: string, paint: (code: string, text: string) => string): string[] {
+  const note = c.updateType === 'Immutable' ? ' (requires replacement)'
+    : c.updateType === 'Conditional' ? ' (may require replacement)'
+    : '';
+  return [
+    `${indent}${CHANGE_MARKS[c.change]} /${c.path.join('/')}` + (note ? paint(REPLACEMENT_COLOR, note) : ''),
+    ...c.oldValue !== undefined ? valueLines(c.oldValue, `${indent}  - `).map(l => paint(CHANGE_COLORS.removed, l)) : [],
+    ...c.newValue !== undefined ? valueLines(c.newValue, `${indent}  + `).map(l => paint(CHANGE_COLORS.added, l)) : [],
+  ];
+}
+
+function valueLines(x: any, prefix: string) {
+  return JSON.stringify(x, undefined, 2).split('\n').map(l => `${prefix}${l}`);
+}
+
+function withoutType(resource: any) {
+  const { Type, ...rest } = resource;
+  return rest;
+}
+
+function sameType(a: any, b: any) {
+  return a !== undefined && b !== undefined && a.Type === b.Type;
+}
+
+function isObject(x: any): x is Record<string, any> {
+  return !!x && typeof x === 'object' && !Array.isArray(x);
+}
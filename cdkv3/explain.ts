@@ -0,0 +1,113 @@
+import { Construct } from "./construct";
+import { DerivedProperty, LinkableSlot, Property, PropertyWrite, Resource, valueToString } from "./core";
+
+/**
+ * Explain how a resource property got its value
+ *
+ * Lists every change made to the property in order, with the modifier that
+ * made it, the `link()` call that applied the modifier and the user code that
+ * made the change. Derived properties also explain the value they were
+ * derived from.
+ */
+export function explain(resource: Resource, propertyName: string): PropertyExplanation {
+  return new PropertyExplanation(`${propertyName} of ${resource}`, resource.property(propertyName));
+}
+
+/**
+ * Report the persistent linkables in a tree and the constructs each one reached
+ */
+export function explainDeferred(scope: Construct): string {
+  const ret = new Array<string>();
+  const stack = [scope];
+  while (stack.length > 0) {
+    const x = stack.shift()!;
+    for (const deferred of x.deferredLinks) {
+      ret.push(`${deferred.linkable}, linked to ${x} at ${deferred.operation.linkCall.userFrame}`);
+      ret.push(...deferred.reached.length > 0 ? deferred.reached.map(r => `  -> ${r}`) : ['  (nothing)']);
+    }
+    stack.push(...Object.values(x.children));
+  }
+  return ret.join('\n');
+}
+
+/**
+ * A change to a property, with stack traces reduced to the frames in user code
+ */
+export interface ExplainedWrite {
+  readonly operation: PropertyWrite['operation'];
+  readonly value: any;
+
+  /**
+   * Where the change was made
+   */
+  readonly at?: string;
+
+  /**
+   * The modifier that made the change, and where it was created
+   */
+  readonly modifier?: string;
+  readonly modifierCreatedAt?: string;
+
+  /**
+   * The construct the modifier was applied to, and where `link()` was called
+   */
+  readonly linkedTo?: string;
+  readonly linkedAt?: string;
+}
+
+export class PropertyExplanation {
+  public readonly writes: ExplainedWrite[];
+  public readonly derivedFrom?: PropertyExplanation;
+
+  constructor(public readonly subject: string, private readonly property: Property | LinkableSlot) {
+    this.writes = property.history.map(explainWrite);
+    if (property instanceof DerivedProperty && (property.source instanceof Property || property.source instanceof LinkableSlot)) {
+      this.derivedFrom = new PropertyExplanation(`${property.source}`, property.source);
+    }
+  }
+
+  public get value() {
+    return this.property.value;
+  }
+
+  public toString() {
+    return this.lines().join('\n');
+  }
+
+  private lines(): string[] {
+    const ret = [`${this.subject} = ${valueToString(this.value)}`];
+    if (this.writes.length === 0) {
+      ret.push('  (never changed)');
+    }
+
+    this.writes.forEach((w, i) => {
+      ret.push(`  ${i + 1}. ${w.operation} ${valueToString(w.value)}`);
+      if (w.modifier) {
+        ret.push(`     by ${w.modifier}` + (w.modifierCreatedAt ? `, created at ${w.modifierCreatedAt}` : ''));
+      }
+      if (w.linkedTo) {
+        ret.push(`     applied to ${w.linkedTo}` + (w.linkedAt ? ` by link() at ${w.linkedAt}` : ''));
+      }
+      if (w.at && w.at !== w.linkedAt) {
+        ret.push(`     at ${w.at}`);
+      }
+    });
+
+    if (this.derivedFrom) {
+      ret.push('  derived from:', ...this.derivedFrom.lines().map(l => `    ${l}`));
+    }
+    return ret;
+  }
+}
+
+function explainWrite(write: PropertyWrite): ExplainedWrite {
+  return {
+    operation: write.operation,
+    value: write.value,
+    at: write.trace.userFrame,
+    modifier: write.link ? `${write.link.linkable}` : undefined,
+    modifierCreatedAt: write.link?.linkable.creationStack?.userFrame,
+    linkedTo: write.link ? `${write.link.target}` : undefined,
+    linkedAt: write.link?.linkCall?.userFrame,
+  };
+}
@@ -0,0 +1,82 @@
+import { Construct } from "./construct";
+import { isToken, lazy, resolveSubTemplate, tokenToList, tokenToString } from "./tokens";
+
+/**
+ * A construct that can be referenced by its logical ID
+ */
+export interface IReferenceable extends Construct {
+  readonly logicalId: string;
+}
+
+/**
+ * CloudFormation intrinsic functions
+ *
+ * The functions return tokens that can be used anywhere a plain value can,
+ * including embedded in other strings. If none of the arguments are tokens,
+ * the function is evaluated right away.
+ *
+ * Tokens belong to an app, so functions that don't reference a construct take
+ * the scope to create the token in.
+ */
+export class Fn {
+  public static ref(target: IReferenceable): string {
+    return tokenToString(lazy(() => ({ Ref: target.logicalId })), target, target);
+  }
+
+  public static getAtt(target: IReferenceable, attributeName: string): string {
+    return tokenToString(lazy(() => ({ 'Fn::GetAtt': [target.logicalId, attributeName] })), target, target);
+  }
+
+  /**
+   * Like `getAtt`, for attributes that are lists
+   */
+  public static getAttList(target: IReferenceable, attributeName: string): string[] {
+    return tokenToList(lazy(() => ({ 'Fn::GetAtt': [target.logicalId, attributeName] })), target, target);
+  }
+
+  public static join(scope: Construct, delimiter: string, list: string[]): string {
+    if (!isToken(list) && !list.some(isToken)) {
+      return list.join(delimiter);
+    }
+    return tokenToString({ 'Fn::Join': [delimiter, list] }, scope);
+  }
+
+  /**
+   * Substitute variables in a template string
+   *
+   * Tokens embedded in the template are turned into `${...}` references.
+   */
+  public static sub(scope: Construct, template: string, variables?: Record<string, string>): string {
+    return tokenToString({
+      template,
+      variables,
+      resolve() {
+        const sub = resolveSubTemplate(template, scope);
+        const allVariables = { ...sub.variables, ...variables };
+        return { 'Fn::Sub': Object.keys(allVariables).length > 0 ? [sub.template, allVariables] : sub.template };
+      },
+    }, scope);
+  }
+
+  public static select(scope: Construct, index: number, list: string[]): string {
+    if (!isToken(list) && !list.some(isToken)) {
+      return list[index];
+    }
+    return tokenToString({ 'Fn::Select': [index, list] }, scope);
+  }
+
+  public static split(scope: Construct, delimiter: string, source: string): string[] {
+    if (!isToken(source)) {
+      return source.split(delimiter);
+    }
+    return tokenToList({ 'Fn::Split': [delimiter, source] }, scope);
+  }
+
+  public static conditionIf(condition: IReferenceable, ifTrue: any, ifFalse: any): string {
+    return tokenToString(lazy(() => ({ 'Fn::If': [condition.logicalId, ifTrue, ifFalse] })), condition);
+  }
+
+  public static importValue(scope: Construct, exportName: string): string {
+    return tokenToString({ 'Fn::ImportValue': exportName }, scope);
+  }
+}
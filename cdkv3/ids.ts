@@ -0,0 +1,105 @@
+import * as crypto from "crypto";
+import { Construct } from "./construct";
+
+/**
+ * Allocates the logical IDs of the elements of a template
+ *
+ * A logical ID is the path of the element inside its template, with
+ * everything but letters and digits removed and path components named
+ * `Default` left out. Wrapping a construct in a new parent keeps its logical
+ * ID if the construct gets the id `Default`.
+ *
+ * Elements whose IDs would collide, and IDs that would be empty or too long,
+ * get a hash of the element's path appended. IDs set with `overrideLogicalId()`
+ * are used as they are, and must be unique.
+ */
+export class LogicalIds {
+  /**
+   * The logical ID of an element, allocated among the other elements of its template
+   */
+  public static of(x: Construct): string {
+    const id = LogicalIds.allocate(x.templateRoot).get(x);
+    if (id === undefined) {
+      throw new Error(`${x} does not render into a template`);
+    }
+    return id;
+  }
+
+  public static override(x: Construct, logicalId: string) {
+    if (!/^[A-Za-z0-9]+$/.test(logicalId) || logicalId.length > MAX_LENGTH) {
+      throw new Error(`Invalid logical ID for ${x}: ${JSON.stringify(logicalId)} (must be 1-${MAX_LENGTH} letters and digits)`);
+    }
+    OVERRIDES.set(x, logicalId);
+  }
+
+  /**
+   * The logical IDs of all elements in the template of the given template root
+   *
+   * Throws if two elements have the same overridden logical ID.
+   */
+  public static allocate(template: Construct): Map<Construct, string> {
+    const elements = templateElements(template);
+    const ret = new Map<Construct, string>();
+    const owners = new Map<string, Construct>();
+    const claim = (x: Construct, id: string) => {
+      const other = owners.get(id);
+      if (other) {
+        throw new Error(`Duplicate logical ID ${id}: ${pathOf(other)} and ${pathOf(x)}`);
+      }
+      owners.set(id, x);
+      ret.set(x, id);
+    };
+
+    for (const x of elements.filter(e => OVERRIDES.has(e))) {
+      claim(x, OVERRIDES.get(x)!);
+    }
+
+    // Hash every member of a colliding group, so no element keeps the plain ID
+    // just because it happened to be found first
+    const generated = elements.filter(e => !OVERRIDES.has(e));
+    const candidates = new Map(generated.map(x => [x, humanPart(x)]));
+    const counts = new Map<string, number>();
+    for (const id of candidates.values()) {
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+
+    for (const x of generated) {
+      const id = candidates.get(x)!;
+      const unique = counts.get(id) === 1 && !owners.has(id) && id.length > 0 && id.length <= MAX_LENGTH;
+      claim(x, unique ? id : id.slice(0, MAX_LENGTH - HASH_LENGTH) + pathHash(x));
+    }
+    return ret;
+  }
+}
+
+const MAX_LENGTH = 255;
+const HASH_LENGTH = 8;
+const OVERRIDES = new WeakMap<Construct, string>();
+
+/**
+ * The constructs in a template that have logical IDs
+ */
+function templateElements(template: Construct): Construct[] {
+  const ret = new Array<Construct>();
+  const stack = Object.values(template.children).filter(c => !c.isTemplateRoot);
+  while (stack.length > 0) {
+    const x = stack.shift()!;
+    if ('logicalId' in x) {
+      ret.push(x);
+    }
+    stack.push(...Object.values(x.children).filter(c => !c.isTemplateRoot));
+  }
+  return ret;
+}
+
+function humanPart(x: Construct) {
+  return x.templatePath.filter(id => id !== 'Default').map(id => id.replace(/[^A-Za-z0-9]/g, '')).join('');
+}
+
+function pathHash(x: Construct) {
+  return crypto.createHash('md5').update(x.templatePath.join('/')).digest('hex').slice(0, HASH_LENGTH).toUpperCase();
+}
+
+function pathOf(x: Construct) {
+  return x.constructPath.join('/');
+}
@@ -1,3 +1,18 @@
 export * from './core';
 export * from './construct';
-export * from './stdlib';
\ No newline at end of file
+export * from './resources.generated';
+export * from './stdlib';
+export * from './synth';
+export * from './dependencies';
+export * from './tokens';
+export * from './fn';
+export * from './lens';
+export * from './schema';
+export * from './explain';
+export * from './select';
+export * from './aspects';
+export * from './stacks';
+export * from './ids';
+export * from './tree';
+export * from './assertions';
+export * from './diff';
@@ -1,53 +1,194 @@
 /**
  * Lens Builder
- * 
- * These lenses currently only support objects and lists of objects
- * (not lists of scalars).
+ *
+ * A lens is a path into a structure of objects and lists, with changes to
+ * make at the end of that path. Objects and lists along the path are created
+ * if they don't exist yet.
+ *
+ * A lens can focus on more than one value at a time (after `where()`), in
+ * which case subsequent operations apply to all of them.
+ *
+ * Applying a lens does not modify the value passed in; plain objects and
+ * lists are copied before they're changed.
  */
 export class Lens {
   private readonly operations = new Array<ILensOp>();
 
-  public set(key: any, value: any): Lens {
-    this.operations.push({
-      apply(ctx) {
-        ctx.value[key] = value;
-        return ctx;
-      },
+  /**
+   * Set a key on the focused objects
+   */
+  public set(key: string, value: any): Lens {
+    return this.op(`.${key} = ${JSON.stringify(value)}`, (ctx) => {
+      expectObject(ctx, 'set');
+      ctx.value[key] = value;
+      return [ctx];
+    });
+  }
+
+  /**
+   * Delete a key from the focused objects
+   */
+  public delete(key: string): Lens {
+    return this.op(`delete .${key}`, (ctx) => {
+      expectObject(ctx, 'delete');
+      delete ctx.value[key];
+      return [ctx];
     });
-    return this;
   }
 
+  /**
+   * Focus on the object under the given key, creating it if necessary
+   */
   public descend(key: string): Lens {
-    this.operations.push({
-      apply(ctx) {
-        if (!ctx.value || typeof ctx.value !== 'object') {
-          throw new Error(`Expected object in descend() lens, got ${ctx.value}`);
-        }
+    return this.op(`.${key}`, (ctx) => {
+      expectObject(ctx, 'descend');
+      if (ctx.value[key] === undefined) {
         ctx.value[key] = {};
-        return { value: ctx.value[key], key };
-      },
+      }
+      return [{ value: ctx.value[key], parent: ctx.value, key }];
     });
+  }
 
-    return this;
+  /**
+   * Focus on the list under the given key, creating it if necessary
+   */
+  public descendList(key: string): Lens {
+    return this.op(`.${key}[]`, (ctx) => {
+      expectObject(ctx, 'descendList');
+      if (ctx.value[key] === undefined) {
+        ctx.value[key] = [];
+      }
+      return [{ value: ctx.value[key], parent: ctx.value, key }];
+    });
   }
 
-  public addElement(): Lens {
-    return this;
+  /**
+   * Add an element to the focused lists and focus on it
+   */
+  public addElement(element: any = {}): Lens {
+    return this.op(`push(${JSON.stringify(element)})`, (ctx) => {
+      expectList(ctx, 'addElement');
+      const value = clone(element);
+      ctx.value.push(value);
+      return [{ value, parent: ctx.value, key: ctx.value.length - 1 }];
+    });
   }
 
+  /**
+   * Add scalar values to the focused lists, keeping the lists in focus
+   */
+  public append(...values: any[]): Lens {
+    return this.op(`push(${values.map(v => JSON.stringify(v)).join(', ')})`, (ctx) => {
+      expectList(ctx, 'append');
+      ctx.value.push(...values);
+      return [ctx];
+    });
+  }
+
+  /**
+   * Focus on the element at the given index of the focused lists
+   */
+  public index(i: number): Lens {
+    return this.op(`[${i}]`, (ctx) => {
+      expectList(ctx, 'index');
+      if (i >= ctx.value.length) {
+        throw new Error(`Index ${i} out of range for list of length ${ctx.value.length}`);
+      }
+      return [{ value: ctx.value[i], parent: ctx.value, key: i }];
+    });
+  }
+
+  /**
+   * Focus on all elements of the focused lists that match the predicate
+   */
+  public where(pred: (x: any) => boolean, description = 'predicate'): Lens {
+    return this.op(`[${description}]`, (ctx) => {
+      expectList(ctx, 'where');
+      return ctx.value.flatMap((value: any, key: number) => pred(value) ? [{ value, parent: ctx.value, key }] : []);
+    });
+  }
+
+  /**
+   * Focus on all objects in the focused lists that have the given value for a key
+   *
+   * For example, `whereEquals('Key', 'CostCenter')` selects a tag.
+   */
+  public whereEquals(key: string, value: any): Lens {
+    return this.where((x) => x && typeof x === 'object' && x[key] === value, `${key}=${JSON.stringify(value)}`);
+  }
+
+  /**
+   * Remove the focused values from their parent objects or lists
+   */
+  public remove(): Lens {
+    return this.op('remove()', (ctx) => {
+      if (ctx.parent === undefined) {
+        throw new Error('Cannot remove() the value a lens is applied to');
+      }
+      if (Array.isArray(ctx.parent)) {
+        // Find by identity, earlier removals may have shifted the index
+        ctx.parent.splice(ctx.parent.indexOf(ctx.value), 1);
+      } else {
+        delete ctx.parent[ctx.key!];
+      }
+      return [];
+    });
+  }
+
+  /**
+   * Apply the lens to a value and return the changed copy
+   */
   public apply(value: any) {
-    let ctx = { value };
+    const root = clone(value);
+    let contexts: ApplyContext[] = [{ value: root }];
     for (const op of this.operations) {
-      ctx = op.apply(ctx);
+      contexts = contexts.flatMap(ctx => op.apply(ctx));
     }
+    return root;
+  }
+
+  public toString() {
+    return `Lens(${this.operations.map(o => o.description).join(' ')})`;
+  }
+
+  private op(description: string, apply: (context: ApplyContext) => ApplyContext[]): Lens {
+    this.operations.push({ description, apply });
+    return this;
   }
 }
 
 interface ApplyContext {
   value: any;
-  key?: string;
+  parent?: any;
+  key?: string | number;
 }
 
 interface ILensOp {
-  apply(context: ApplyContext): ApplyContext;
-}
\ No newline at end of file
+  readonly description: string;
+  apply(context: ApplyContext): ApplyContext[];
+}
+
+function expectObject(ctx: ApplyContext, op: string) {
+  if (!ctx.value || typeof ctx.value !== 'object' || Array.isArray(ctx.value)) {
+    throw new Error(`Expected object in ${op}() lens, got ${JSON.stringify(ctx.value)}`);
+  }
+}
+
+function expectList(ctx: ApplyContext, op: string) {
+  if (!Array.isArray(ctx.value)) {
+    throw new Error(`Expected list in ${op}() lens, got ${JSON.stringify(ctx.value)}`);
+  }
+}
+
+/**
+ * Copy plain objects and lists, leave everything else as-is
+ */
+function clone(x: any): any {
+  if (Array.isArray(x)) {
+    return x.map(clone);
+  }
+  if (x && typeof x === 'object' && Object.getPrototypeOf(x) === Object.prototype) {
+    return Object.fromEntries(Object.entries(x).map(([k, v]) => [k, clone(v)]));
+  }
+  return x;
+}
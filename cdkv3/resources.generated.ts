@@ -0,0 +1,796 @@
+// Generated by codegen/generate.ts from codegen/spec.json and codegen/overlay.json. Do not edit.
+import { Construct, ILinkable } from "./construct";
+import { ClearTweak, CollectionProperty, CollectionTweak, KeyedCollectionProperty, LensTweak, prioritized, PropertyTable, RemoveTweak, Resource, ScalarProperty, ScalarTweak } from "./core";
+import { Fn } from "./fn";
+import { Lens } from "./lens";
+import { Schema } from "./schema";
+
+//////////////////////////////////////////////////////////////////////
+// PROPERTY SCHEMAS
+
+const CfnIAMRolePolicySchema = Schema.object({
+  PolicyDocument: Schema.json(),
+  PolicyName: Schema.string(),
+}, ["PolicyDocument", "PolicyName"]);
+
+const CfnS3BucketLoggingConfigurationSchema = Schema.object({
+  DestinationBucketName: Schema.string(),
+  LogFilePrefix: Schema.string(),
+});
+
+const CfnS3BucketVersioningConfigurationSchema = Schema.object({
+  Status: Schema.enum("Enabled", "Suspended"),
+}, ["Status"]);
+
+const CfnS3BucketPublicAccessBlockConfigurationSchema = Schema.object({
+  BlockPublicAcls: Schema.boolean(),
+  BlockPublicPolicy: Schema.boolean(),
+  IgnorePublicAcls: Schema.boolean(),
+  RestrictPublicBuckets: Schema.boolean(),
+});
+
+const CfnTagSchema = Schema.object({
+  Key: Schema.string(),
+  Value: Schema.string(),
+}, ["Key", "Value"]);
+
+//////////////////////////////////////////////////////////////////////
+// SHARED PROPERTY TYPES
+
+/**
+ * `Tag`
+ *
+ * @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-properties-resource-tags.html
+ */
+export interface CfnTag {
+  readonly key: string;
+  readonly value: string;
+}
+
+function renderCfnTag(x: CfnTag): any {
+  return {
+    Key: x.key,
+    Value: x.value,
+  };
+}
+
+//////////////////////////////////////////////////////////////////////
+// AWS::CLOUDFORMATION::STACK
+
+export interface CfnCloudFormationStackProps {
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-properties-stack.html#cfn-cloudformation-stack-notificationarns */
+  readonly notificationARNs?: string[];
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-properties-stack.html#cfn-cloudformation-stack-parameters */
+  readonly parameters?: Record<string, string>;
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-properties-stack.html#cfn-cloudformation-stack-tags */
+  readonly tags?: CfnTag[];
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-properties-stack.html#cfn-cloudformation-stack-templateurl */
+  readonly templateURL?: string;
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-properties-stack.html#cfn-cloudformation-stack-timeoutinminutes */
+  readonly timeoutInMinutes?: number;
+}
+
+/**
+ * `AWS::CloudFormation::Stack`
+ *
+ * @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-properties-stack.html
+ */
+export class CfnCloudFormationStack extends Resource {
+  public static NotificationARN(value: string) {
+    return new CollectionTweak("AWS::CloudFormation::Stack", "NotificationARNs", value);
+  }
+
+  public static RemoveNotificationARN(value: string) {
+    return new RemoveTweak("AWS::CloudFormation::Stack", "NotificationARNs", value);
+  }
+
+  public static ClearNotificationARNs() {
+    return new ClearTweak("AWS::CloudFormation::Stack", "NotificationARNs");
+  }
+
+  public static readonly Parameters = prioritized((priority) => (value: Record<string, string>) =>
+    new ScalarTweak("AWS::CloudFormation::Stack", "Parameters", value, priority));
+
+  public static Tag(key: string, value: string) {
+    return new CollectionTweak("AWS::CloudFormation::Stack", "Tags", renderCfnTag({ key, value }));
+  }
+
+  public static RemoveTag(key: string) {
+    return new RemoveTweak("AWS::CloudFormation::Stack", "Tags", key);
+  }
+
+  public static ClearTags() {
+    return new ClearTweak("AWS::CloudFormation::Stack", "Tags");
+  }
+
+  public static readonly TemplateURL = prioritized((priority) => (value: string) =>
+    new ScalarTweak("AWS::CloudFormation::Stack", "TemplateURL", value, priority));
+
+  public static readonly TimeoutInMinutes = prioritized((priority) => (value: number) =>
+    new ScalarTweak("AWS::CloudFormation::Stack", "TimeoutInMinutes", value, priority));
+
+  /** The properties of the resource, and the factories that apply their props values */
+  public static readonly PROPERTIES: PropertyTable<CfnCloudFormationStackProps> = {
+    notificationARNs: {
+      name: "NotificationARNs",
+      create: () => new KeyedCollectionProperty({ schema: Schema.string() }),
+      fromProps: (xs) => xs.map(x => CfnCloudFormationStack.NotificationARN(x)),
+    },
+    parameters: {
+      name: "Parameters",
+      create: () => new ScalarProperty(undefined, { schema: Schema.map(Schema.string()) }),
+      fromProps: (x) => CfnCloudFormationStack.Parameters(x),
+    },
+    tags: {
+      name: "Tags",
+      create: () => new KeyedCollectionProperty({ schema: CfnTagSchema, key: "Key", sorted: true }),
+      fromProps: (xs) => xs.map(x => CfnCloudFormationStack.Tag(x.key, x.value)),
+    },
+    templateURL: {
+      name: "TemplateURL",
+      create: () => new ScalarProperty(undefined, { schema: Schema.string(), required: true }),
+      fromProps: (x) => CfnCloudFormationStack.TemplateURL(x),
+    },
+    timeoutInMinutes: {
+      name: "TimeoutInMinutes",
+      create: () => new ScalarProperty(undefined, { schema: Schema.number() }),
+      fromProps: (x) => CfnCloudFormationStack.TimeoutInMinutes(x),
+    },
+  };
+
+  constructor(scope: Construct, id: string, props?: CfnCloudFormationStackProps, linkables?: ILinkable[]) {
+    super(scope, id, "AWS::CloudFormation::Stack");
+
+    this.makeLinkableAs("AWS::CloudFormation::Stack");
+    this.declareProperties(CfnCloudFormationStack.PROPERTIES, props, linkables);
+  }
+}
+
+//////////////////////////////////////////////////////////////////////
+// AWS::IAM::MANAGEDPOLICY
+
+export interface CfnIAMManagedPolicyProps {
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-managedpolicy.html#cfn-iam-managedpolicy-description */
+  readonly description?: string;
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-managedpolicy.html#cfn-iam-managedpolicy-groups */
+  readonly groups?: string[];
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-managedpolicy.html#cfn-iam-managedpolicy-managedpolicyname */
+  readonly managedPolicyName?: string;
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-managedpolicy.html#cfn-iam-managedpolicy-path */
+  readonly path?: string;
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-managedpolicy.html#cfn-iam-managedpolicy-policydocument */
+  readonly policyDocument?: any;
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-managedpolicy.html#cfn-iam-managedpolicy-roles */
+  readonly roles?: string[];
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-managedpolicy.html#cfn-iam-managedpolicy-users */
+  readonly users?: string[];
+}
+
+/**
+ * `AWS::IAM::ManagedPolicy`
+ *
+ * @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-managedpolicy.html
+ */
+export class CfnIAMManagedPolicy extends Resource {
+  public static readonly Description = prioritized((priority) => (value: string) =>
+    new ScalarTweak("AWS::IAM::ManagedPolicy", "Description", value, priority));
+
+  public static Group(value: string) {
+    return new CollectionTweak("AWS::IAM::ManagedPolicy", "Groups", value);
+  }
+
+  public static RemoveGroup(value: string) {
+    return new RemoveTweak("AWS::IAM::ManagedPolicy", "Groups", value);
+  }
+
+  public static ClearGroups() {
+    return new ClearTweak("AWS::IAM::ManagedPolicy", "Groups");
+  }
+
+  public static readonly ManagedPolicyName = prioritized((priority) => (value: string) =>
+    new ScalarTweak("AWS::IAM::ManagedPolicy", "ManagedPolicyName", value, priority));
+
+  public static readonly Path = prioritized((priority) => (value: string) =>
+    new ScalarTweak("AWS::IAM::ManagedPolicy", "Path", value, priority));
+
+  public static readonly PolicyDocument = prioritized((priority) => (value: any) =>
+    new ScalarTweak("AWS::IAM::ManagedPolicy", "PolicyDocument", value, priority));
+
+  public static Role(value: string) {
+    return new CollectionTweak("AWS::IAM::ManagedPolicy", "Roles", value);
+  }
+
+  public static RemoveRole(value: string) {
+    return new RemoveTweak("AWS::IAM::ManagedPolicy", "Roles", value);
+  }
+
+  public static ClearRoles() {
+    return new ClearTweak("AWS::IAM::ManagedPolicy", "Roles");
+  }
+
+  public static User(value: string) {
+    return new CollectionTweak("AWS::IAM::ManagedPolicy", "Users", value);
+  }
+
+  public static RemoveUser(value: string) {
+    return new RemoveTweak("AWS::IAM::ManagedPolicy", "Users", value);
+  }
+
+  public static ClearUsers() {
+    return new ClearTweak("AWS::IAM::ManagedPolicy", "Users");
+  }
+
+  /** The properties of the resource, and the factories that apply their props values */
+  public static readonly PROPERTIES: PropertyTable<CfnIAMManagedPolicyProps> = {
+    description: {
+      name: "Description",
+      create: () => new ScalarProperty(undefined, { schema: Schema.string() }),
+      fromProps: (x) => CfnIAMManagedPolicy.Description(x),
+    },
+    groups: {
+      name: "Groups",
+      create: () => new KeyedCollectionProperty({ schema: Schema.string() }),
+      fromProps: (xs) => xs.map(x => CfnIAMManagedPolicy.Group(x)),
+    },
+    managedPolicyName: {
+      name: "ManagedPolicyName",
+      create: () => new ScalarProperty(undefined, { schema: Schema.string() }),
+      fromProps: (x) => CfnIAMManagedPolicy.ManagedPolicyName(x),
+    },
+    path: {
+      name: "Path",
+      create: () => new ScalarProperty(undefined, { schema: Schema.string() }),
+      fromProps: (x) => CfnIAMManagedPolicy.Path(x),
+    },
+    policyDocument: {
+      name: "PolicyDocument",
+      create: () => new ScalarProperty(undefined, { schema: Schema.json(), required: true }),
+      fromProps: (x) => CfnIAMManagedPolicy.PolicyDocument(x),
+    },
+    roles: {
+      name: "Roles",
+      create: () => new KeyedCollectionProperty({ schema: Schema.string() }),
+      fromProps: (xs) => xs.map(x => CfnIAMManagedPolicy.Role(x)),
+      references: { resourceType: "AWS::IAM::Role" },
+    },
+    users: {
+      name: "Users",
+      create: () => new KeyedCollectionProperty({ schema: Schema.string() }),
+      fromProps: (xs) => xs.map(x => CfnIAMManagedPolicy.User(x)),
+    },
+  };
+
+  constructor(scope: Construct, id: string, props?: CfnIAMManagedPolicyProps, linkables?: ILinkable[]) {
+    super(scope, id, "AWS::IAM::ManagedPolicy");
+
+    this.makeLinkableAs("AWS::IAM::ManagedPolicy");
+    this.declareProperties(CfnIAMManagedPolicy.PROPERTIES, props, linkables);
+  }
+
+  public get policyArn() {
+    return this.getAtt("PolicyArn");
+  }
+}
+
+//////////////////////////////////////////////////////////////////////
+// AWS::IAM::POLICY
+
+export interface CfnIAMPolicyProps {
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-policy.html#cfn-iam-policy-groups */
+  readonly groups?: string[];
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-policy.html#cfn-iam-policy-policydocument */
+  readonly policyDocument?: any;
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-policy.html#cfn-iam-policy-policyname */
+  readonly policyName?: string;
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-policy.html#cfn-iam-policy-roles */
+  readonly roles?: string[];
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-policy.html#cfn-iam-policy-users */
+  readonly users?: string[];
+}
+
+/**
+ * `AWS::IAM::Policy`
+ *
+ * @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-policy.html
+ */
+export class CfnIAMPolicy extends Resource {
+  public static Group(value: string) {
+    return new CollectionTweak("AWS::IAM::Policy", "Groups", value);
+  }
+
+  public static RemoveGroup(value: string) {
+    return new RemoveTweak("AWS::IAM::Policy", "Groups", value);
+  }
+
+  public static ClearGroups() {
+    return new ClearTweak("AWS::IAM::Policy", "Groups");
+  }
+
+  public static readonly PolicyDocument = prioritized((priority) => (value: any) =>
+    new ScalarTweak("AWS::IAM::Policy", "PolicyDocument", value, priority));
+
+  public static readonly PolicyName = prioritized((priority) => (value: string) =>
+    new ScalarTweak("AWS::IAM::Policy", "PolicyName", value, priority));
+
+  public static Role(value: string) {
+    return new CollectionTweak("AWS::IAM::Policy", "Roles", value);
+  }
+
+  public static RemoveRole(value: string) {
+    return new RemoveTweak("AWS::IAM::Policy", "Roles", value);
+  }
+
+  public static ClearRoles() {
+    return new ClearTweak("AWS::IAM::Policy", "Roles");
+  }
+
+  public static User(value: string) {
+    return new CollectionTweak("AWS::IAM::Policy", "Users", value);
+  }
+
+  public static RemoveUser(value: string) {
+    return new RemoveTweak("AWS::IAM::Policy", "Users", value);
+  }
+
+  public static ClearUsers() {
+    return new ClearTweak("AWS::IAM::Policy", "Users");
+  }
+
+  /** The properties of the resource, and the factories that apply their props values */
+  public static readonly PROPERTIES: PropertyTable<CfnIAMPolicyProps> = {
+    groups: {
+      name: "Groups",
+      create: () => new KeyedCollectionProperty({ schema: Schema.string() }),
+      fromProps: (xs) => xs.map(x => CfnIAMPolicy.Group(x)),
+    },
+    policyDocument: {
+      name: "PolicyDocument",
+      create: () => new ScalarProperty(undefined, { schema: Schema.json(), required: true }),
+      fromProps: (x) => CfnIAMPolicy.PolicyDocument(x),
+    },
+    policyName: {
+      name: "PolicyName",
+      create: () => new ScalarProperty(undefined, { schema: Schema.string(), required: true }),
+      fromProps: (x) => CfnIAMPolicy.PolicyName(x),
+    },
+    roles: {
+      name: "Roles",
+      create: () => new KeyedCollectionProperty({ schema: Schema.string() }),
+      fromProps: (xs) => xs.map(x => CfnIAMPolicy.Role(x)),
+      references: { resourceType: "AWS::IAM::Role" },
+    },
+    users: {
+      name: "Users",
+      create: () => new KeyedCollectionProperty({ schema: Schema.string() }),
+      fromProps: (xs) => xs.map(x => CfnIAMPolicy.User(x)),
+    },
+  };
+
+  constructor(scope: Construct, id: string, props?: CfnIAMPolicyProps, linkables?: ILinkable[]) {
+    super(scope, id, "AWS::IAM::Policy");
+
+    this.makeLinkableAs("AWS::IAM::Policy");
+    this.declareProperties(CfnIAMPolicy.PROPERTIES, props, linkables);
+  }
+}
+
+//////////////////////////////////////////////////////////////////////
+// AWS::IAM::ROLE
+
+export interface CfnIAMRoleProps {
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-role.html#cfn-iam-role-assumerolepolicydocument */
+  readonly assumeRolePolicyDocument?: any;
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-role.html#cfn-iam-role-description */
+  readonly description?: string;
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-role.html#cfn-iam-role-managepolicyarns */
+  readonly managedPolicyArns?: string[];
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-role.html#cfn-iam-role-maxsessionduration */
+  readonly maxSessionDuration?: number;
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-role.html#cfn-iam-role-path */
+  readonly path?: string;
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-role.html#cfn-iam-role-policies */
+  readonly policies?: CfnIAMRole.Policy[];
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-role.html#cfn-iam-role-rolename */
+  readonly roleName?: string;
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-role.html#cfn-iam-role-tags */
+  readonly tags?: CfnTag[];
+}
+
+/**
+ * `AWS::IAM::Role`
+ *
+ * @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-iam-role.html
+ */
+export class CfnIAMRole extends Resource {
+  public static readonly AssumeRolePolicyDocument = prioritized((priority) => (value: any) =>
+    new ScalarTweak("AWS::IAM::Role", "AssumeRolePolicyDocument", value, priority));
+
+  public static readonly Description = prioritized((priority) => (value: string) =>
+    new ScalarTweak("AWS::IAM::Role", "Description", value, priority));
+
+  public static ManagedPolicyArn(value: string) {
+    return new CollectionTweak("AWS::IAM::Role", "ManagedPolicyArns", value);
+  }
+
+  public static RemoveManagedPolicyArn(value: string) {
+    return new RemoveTweak("AWS::IAM::Role", "ManagedPolicyArns", value);
+  }
+
+  public static ClearManagedPolicyArns() {
+    return new ClearTweak("AWS::IAM::Role", "ManagedPolicyArns");
+  }
+
+  public static readonly MaxSessionDuration = prioritized((priority) => (value: number) =>
+    new ScalarTweak("AWS::IAM::Role", "MaxSessionDuration", value, priority));
+
+  public static readonly Path = prioritized((priority) => (value: string) =>
+    new ScalarTweak("AWS::IAM::Role", "Path", value, priority));
+
+  public static Policy(value: CfnIAMRole.Policy) {
+    return new CollectionTweak("AWS::IAM::Role", "Policies", renderCfnIAMRolePolicy(value));
+  }
+
+  public static RemovePolicy(policyName: string) {
+    return new RemoveTweak("AWS::IAM::Role", "Policies", policyName);
+  }
+
+  public static ClearPolicies() {
+    return new ClearTweak("AWS::IAM::Role", "Policies");
+  }
+
+  public static readonly RoleName = prioritized((priority) => (value: string) =>
+    new ScalarTweak("AWS::IAM::Role", "RoleName", value, priority));
+
+  public static Tag(key: string, value: string) {
+    return new CollectionTweak("AWS::IAM::Role", "Tags", renderCfnTag({ key, value }));
+  }
+
+  public static RemoveTag(key: string) {
+    return new RemoveTweak("AWS::IAM::Role", "Tags", key);
+  }
+
+  public static ClearTags() {
+    return new ClearTweak("AWS::IAM::Role", "Tags");
+  }
+
+  /** The properties of the resource, and the factories that apply their props values */
+  public static readonly PROPERTIES: PropertyTable<CfnIAMRoleProps> = {
+    assumeRolePolicyDocument: {
+      name: "AssumeRolePolicyDocument",
+      create: () => new ScalarProperty(undefined, { schema: Schema.json(), required: true }),
+      fromProps: (x) => CfnIAMRole.AssumeRolePolicyDocument(x),
+    },
+    description: {
+      name: "Description",
+      create: () => new ScalarProperty(undefined, { schema: Schema.string() }),
+      fromProps: (x) => CfnIAMRole.Description(x),
+    },
+    managedPolicyArns: {
+      name: "ManagedPolicyArns",
+      create: () => new KeyedCollectionProperty({ schema: Schema.string() }),
+      fromProps: (xs) => xs.map(x => CfnIAMRole.ManagedPolicyArn(x)),
+    },
+    maxSessionDuration: {
+      name: "MaxSessionDuration",
+      create: () => new ScalarProperty(undefined, { schema: Schema.number() }),
+      fromProps: (x) => CfnIAMRole.MaxSessionDuration(x),
+    },
+    path: {
+      name: "Path",
+      create: () => new ScalarProperty(undefined, { schema: Schema.string() }),
+      fromProps: (x) => CfnIAMRole.Path(x),
+    },
+    policies: {
+      name: "Policies",
+      create: () => new KeyedCollectionProperty({ schema: CfnIAMRolePolicySchema, key: "PolicyName" }),
+      fromProps: (xs) => xs.map(x => CfnIAMRole.Policy(x)),
+    },
+    roleName: {
+      name: "RoleName",
+      create: () => new ScalarProperty(undefined, { schema: Schema.string() }),
+      fromProps: (x) => CfnIAMRole.RoleName(x),
+    },
+    tags: {
+      name: "Tags",
+      create: () => new KeyedCollectionProperty({ schema: CfnTagSchema, key: "Key", sorted: true }),
+      fromProps: (xs) => xs.map(x => CfnIAMRole.Tag(x.key, x.value)),
+    },
+  };
+
+  constructor(scope: Construct, id: string, props?: CfnIAMRoleProps, linkables?: ILinkable[]) {
+    super(scope, id, "AWS::IAM::Role");
+
+    this.makeLinkableAs("AWS::IAM::Role");
+    this.declareProperties(CfnIAMRole.PROPERTIES, props, linkables);
+  }
+
+  public get arn() {
+    return this.getAtt("Arn");
+  }
+
+  public get roleId() {
+    return this.getAtt("RoleId");
+  }
+}
+
+export namespace CfnIAMRole {
+  /**
+   * `AWS::IAM::Role.Policy`
+   *
+   * @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-properties-iam-policy.html
+   */
+  export interface Policy {
+    readonly policyDocument: any;
+    readonly policyName: string;
+  }
+}
+
+function renderCfnIAMRolePolicy(x: CfnIAMRole.Policy): any {
+  return {
+    PolicyDocument: x.policyDocument,
+    PolicyName: x.policyName,
+  };
+}
+
+//////////////////////////////////////////////////////////////////////
+// AWS::S3::BUCKET
+
+export interface CfnS3BucketProps {
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-properties-s3-bucket.html#cfn-s3-bucket-accesscontrol */
+  readonly accessControl?: "AuthenticatedRead" | "AwsExecRead" | "BucketOwnerFullControl" | "BucketOwnerRead" | "LogDeliveryWrite" | "Private" | "PublicRead" | "PublicReadWrite";
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-properties-s3-bucket.html#cfn-s3-bucket-name */
+  readonly bucketName?: string;
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-properties-s3-bucket.html#cfn-s3-bucket-loggingconfig */
+  readonly loggingConfiguration?: CfnS3Bucket.LoggingConfiguration;
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-properties-s3-bucket.html#cfn-s3-bucket-publicaccessblockconfiguration */
+  readonly publicAccessBlockConfiguration?: CfnS3Bucket.PublicAccessBlockConfiguration;
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-properties-s3-bucket.html#cfn-s3-bucket-tags */
+  readonly tags?: CfnTag[];
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-properties-s3-bucket.html#cfn-s3-bucket-versioning */
+  readonly versioningConfiguration?: CfnS3Bucket.VersioningConfiguration;
+}
+
+/**
+ * `AWS::S3::Bucket`
+ *
+ * @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-properties-s3-bucket.html
+ */
+export class CfnS3Bucket extends Resource {
+  public static readonly AccessControl = prioritized((priority) => (value: "AuthenticatedRead" | "AwsExecRead" | "BucketOwnerFullControl" | "BucketOwnerRead" | "LogDeliveryWrite" | "Private" | "PublicRead" | "PublicReadWrite") =>
+    new ScalarTweak("AWS::S3::Bucket", "AccessControl", value, priority));
+
+  public static readonly BucketName = prioritized((priority) => (value: string) =>
+    new ScalarTweak("AWS::S3::Bucket", "BucketName", value, priority));
+
+  public static readonly LoggingConfiguration = prioritized((priority) => (value: CfnS3Bucket.LoggingConfiguration) =>
+    new ScalarTweak("AWS::S3::Bucket", "LoggingConfiguration", renderCfnS3BucketLoggingConfiguration(value), priority));
+
+  public static readonly PublicAccessBlockConfiguration = prioritized((priority) => (value: CfnS3Bucket.PublicAccessBlockConfiguration) =>
+    new ScalarTweak("AWS::S3::Bucket", "PublicAccessBlockConfiguration", renderCfnS3BucketPublicAccessBlockConfiguration(value), priority));
+
+  public static Tag(key: string, value: string) {
+    return new CollectionTweak("AWS::S3::Bucket", "Tags", renderCfnTag({ key, value }));
+  }
+
+  public static RemoveTag(key: string) {
+    return new RemoveTweak("AWS::S3::Bucket", "Tags", key);
+  }
+
+  public static ClearTags() {
+    return new ClearTweak("AWS::S3::Bucket", "Tags");
+  }
+
+  public static readonly VersioningConfiguration = prioritized((priority) => (value: CfnS3Bucket.VersioningConfiguration) =>
+    new ScalarTweak("AWS::S3::Bucket", "VersioningConfiguration", renderCfnS3BucketVersioningConfiguration(value), priority));
+
+  public static LoggingConfigurationDestinationBucketName(value: string) {
+    return new LensTweak("AWS::S3::Bucket", "LoggingConfiguration", new Lens().set("DestinationBucketName", value));
+  }
+
+  public static LoggingConfigurationLogFilePrefix(value: string) {
+    return new LensTweak("AWS::S3::Bucket", "LoggingConfiguration", new Lens().set("LogFilePrefix", value));
+  }
+
+  public static PublicAccessBlockConfigurationBlockPublicAcls(value: boolean) {
+    return new LensTweak("AWS::S3::Bucket", "PublicAccessBlockConfiguration", new Lens().set("BlockPublicAcls", value));
+  }
+
+  public static PublicAccessBlockConfigurationBlockPublicPolicy(value: boolean) {
+    return new LensTweak("AWS::S3::Bucket", "PublicAccessBlockConfiguration", new Lens().set("BlockPublicPolicy", value));
+  }
+
+  public static PublicAccessBlockConfigurationIgnorePublicAcls(value: boolean) {
+    return new LensTweak("AWS::S3::Bucket", "PublicAccessBlockConfiguration", new Lens().set("IgnorePublicAcls", value));
+  }
+
+  public static PublicAccessBlockConfigurationRestrictPublicBuckets(value: boolean) {
+    return new LensTweak("AWS::S3::Bucket", "PublicAccessBlockConfiguration", new Lens().set("RestrictPublicBuckets", value));
+  }
+
+  public static VersioningConfigurationStatus(value: "Enabled" | "Suspended") {
+    return new LensTweak("AWS::S3::Bucket", "VersioningConfiguration", new Lens().set("Status", value));
+  }
+
+  /** The properties of the resource, and the factories that apply their props values */
+  public static readonly PROPERTIES: PropertyTable<CfnS3BucketProps> = {
+    accessControl: {
+      name: "AccessControl",
+      create: () => new ScalarProperty(undefined, { schema: Schema.enum("AuthenticatedRead", "AwsExecRead", "BucketOwnerFullControl", "BucketOwnerRead", "LogDeliveryWrite", "Private", "PublicRead", "PublicReadWrite") }),
+      fromProps: (x) => CfnS3Bucket.AccessControl(x),
+    },
+    bucketName: {
+      name: "BucketName",
+      create: () => new ScalarProperty(undefined, { schema: Schema.string() }),
+      fromProps: (x) => CfnS3Bucket.BucketName(x),
+    },
+    loggingConfiguration: {
+      name: "LoggingConfiguration",
+      create: () => new ScalarProperty(undefined, { schema: CfnS3BucketLoggingConfigurationSchema }),
+      fromProps: (x) => CfnS3Bucket.LoggingConfiguration(x),
+    },
+    publicAccessBlockConfiguration: {
+      name: "PublicAccessBlockConfiguration",
+      create: () => new ScalarProperty(undefined, { schema: CfnS3BucketPublicAccessBlockConfigurationSchema }),
+      fromProps: (x) => CfnS3Bucket.PublicAccessBlockConfiguration(x),
+    },
+    tags: {
+      name: "Tags",
+      create: () => new KeyedCollectionProperty({ schema: CfnTagSchema, key: "Key", sorted: true }),
+      fromProps: (xs) => xs.map(x => CfnS3Bucket.Tag(x.key, x.value)),
+    },
+    versioningConfiguration: {
+      name: "VersioningConfiguration",
+      create: () => new ScalarProperty(undefined, { schema: CfnS3BucketVersioningConfigurationSchema }),
+      fromProps: (x) => CfnS3Bucket.VersioningConfiguration(x),
+    },
+  };
+
+  constructor(scope: Construct, id: string, props?: CfnS3BucketProps, linkables?: ILinkable[]) {
+    super(scope, id, "AWS::S3::Bucket");
+
+    this.makeLinkableAs("AWS::S3::Bucket");
+    this.declareProperties(CfnS3Bucket.PROPERTIES, props, linkables);
+  }
+
+  public get arn() {
+    return this.getAtt("Arn");
+  }
+
+  public get domainName() {
+    return this.getAtt("DomainName");
+  }
+
+  public get dualStackDomainName() {
+    return this.getAtt("DualStackDomainName");
+  }
+
+  public get regionalDomainName() {
+    return this.getAtt("RegionalDomainName");
+  }
+
+  public get websiteURL() {
+    return this.getAtt("WebsiteURL");
+  }
+}
+
+export namespace CfnS3Bucket {
+  /**
+   * `AWS::S3::Bucket.LoggingConfiguration`
+   *
+   * @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-properties-s3-bucket-loggingconfig.html
+   */
+  export interface LoggingConfiguration {
+    readonly destinationBucketName?: string;
+    readonly logFilePrefix?: string;
+  }
+
+  /**
+   * `AWS::S3::Bucket.VersioningConfiguration`
+   *
+   * @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-properties-s3-bucket-versioningconfig.html
+   */
+  export interface VersioningConfiguration {
+    readonly status: "Enabled" | "Suspended";
+  }
+
+  /**
+   * `AWS::S3::Bucket.PublicAccessBlockConfiguration`
+   *
+   * @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-properties-s3-bucket-publicaccessblockconfiguration.html
+   */
+  export interface PublicAccessBlockConfiguration {
+    readonly blockPublicAcls?: boolean;
+    readonly blockPublicPolicy?: boolean;
+    readonly ignorePublicAcls?: boolean;
+    readonly restrictPublicBuckets?: boolean;
+  }
+}
+
+function renderCfnS3BucketLoggingConfiguration(x: CfnS3Bucket.LoggingConfiguration): any {
+  return {
+    DestinationBucketName: x.destinationBucketName,
+    LogFilePrefix: x.logFilePrefix,
+  };
+}
+
+function renderCfnS3BucketVersioningConfiguration(x: CfnS3Bucket.VersioningConfiguration): any {
+  return {
+    Status: x.status,
+  };
+}
+
+function renderCfnS3BucketPublicAccessBlockConfiguration(x: CfnS3Bucket.PublicAccessBlockConfiguration): any {
+  return {
+    BlockPublicAcls: x.blockPublicAcls,
+    BlockPublicPolicy: x.blockPublicPolicy,
+    IgnorePublicAcls: x.ignorePublicAcls,
+    RestrictPublicBuckets: x.restrictPublicBuckets,
+  };
+}
+
+//////////////////////////////////////////////////////////////////////
+// AWS::S3::BUCKETPOLICY
+
+export interface CfnS3BucketPolicyProps {
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-properties-s3-policy.html#aws-properties-s3-policy-bucket */
+  readonly bucket?: string;
+  /** @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-properties-s3-policy.html#aws-properties-s3-policy-policydocument */
+  readonly policyDocument?: any;
+}
+
+/**
+ * `AWS::S3::BucketPolicy`
+ *
+ * @see http://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-properties-s3-policy.html
+ */
+export class CfnS3BucketPolicy extends Resource {
+  public static readonly Bucket = prioritized((priority) => (value: string) =>
+    new ScalarTweak("AWS::S3::BucketPolicy", "Bucket", value, priority));
+
+  public static readonly PolicyDocument = prioritized((priority) => (value: any) =>
+    new ScalarTweak("AWS::S3::BucketPolicy", "PolicyDocument", value, priority));
+
+  /** The properties of the resource, and the factories that apply their props values */
+  public static readonly PROPERTIES: PropertyTable<CfnS3BucketPolicyProps> = {
+    bucket: {
+      name: "Bucket",
+      create: () => new ScalarProperty(undefined, { schema: Schema.string(), required: true }),
+      fromProps: (x) => CfnS3BucketPolicy.Bucket(x),
+      references: { resourceType: "AWS::S3::Bucket" },
+    },
+    policyDocument: {
+      name: "PolicyDocument",
+      create: () => new ScalarProperty(undefined, { schema: Schema.json(), required: true }),
+      fromProps: (x) => CfnS3BucketPolicy.PolicyDocument(x),
+    },
+  };
+
+  constructor(scope: Construct, id: string, props?: CfnS3BucketPolicyProps, linkables?: ILinkable[]) {
+    super(scope, id, "AWS::S3::BucketPolicy");
+
+    this.makeLinkableAs("AWS::S3::BucketPolicy");
+    this.declareProperties(CfnS3BucketPolicy.PROPERTIES, props, linkables);
+  }
+}
+
+//////////////////////////////////////////////////////////////////////
+// UPDATE TYPES
+
+/** Properties that require (`Immutable`) or may require (`Conditional`) replacing the resource when they change */
+export const PROPERTY_UPDATE_TYPES: Record<string, Record<string, 'Immutable' | 'Conditional'>> = {
+  "AWS::IAM::ManagedPolicy": {
+    Description: "Immutable",
+    ManagedPolicyName: "Immutable",
+    Path: "Immutable",
+  },
+  "AWS::IAM::Role": {
+    Path: "Immutable",
+    RoleName: "Immutable",
+  },
+  "AWS::S3::Bucket": {
+    BucketName: "Immutable",
+  },
+  "AWS::S3::BucketPolicy": {
+    Bucket: "Immutable",
+  },
+};
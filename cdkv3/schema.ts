@@ -0,0 +1,145 @@
+import { isRenderable, isResolvable, isToken } from "./tokens";
+
+/**
+ * The shape of a property value
+ *
+ * Tokens, resolvables and renderables are accepted wherever a value is
+ * expected: what they stand for is only known at render time.
+ */
+export abstract class Schema {
+  public static string(): Schema {
+    return new PrimitiveSchema('string', (x) => typeof x === 'string');
+  }
+
+  /**
+   * A number, or a string holding one (CloudFormation accepts both)
+   */
+  public static number(): Schema {
+    return new PrimitiveSchema('number', (x) => typeof x === 'number' || (typeof x === 'string' && /^-?\d+(\.\d+)?$/.test(x)));
+  }
+
+  public static boolean(): Schema {
+    return new PrimitiveSchema('boolean', (x) => typeof x === 'boolean' || x === 'true' || x === 'false');
+  }
+
+  /**
+   * Any value
+   */
+  public static json(): Schema {
+    return new PrimitiveSchema('json', () => true);
+  }
+
+  public static enum(...values: string[]): Schema {
+    return new PrimitiveSchema(values.map(v => JSON.stringify(v)).join(' | '), (x) => values.includes(x));
+  }
+
+  public static list(item: Schema): Schema {
+    return new ListSchema(item);
+  }
+
+  public static map(item: Schema): Schema {
+    return new MapSchema(item);
+  }
+
+  public static object(properties: Record<string, Schema>, required: string[] = []): Schema {
+    return new ObjectSchema(properties, required);
+  }
+
+  /**
+   * Return the problems with the given value, if any
+   *
+   * Problems are prefixed with the path to the offending part of the value.
+   */
+  public validate(x: any, path = ''): string[] {
+    if (isToken(x) || isResolvable(x) || isRenderable(x)) {
+      return [];
+    }
+    return this.validateValue(x, path);
+  }
+
+  public abstract toString(): string;
+
+  protected abstract validateValue(x: any, path: string): string[];
+}
+
+class PrimitiveSchema extends Schema {
+  constructor(private readonly name: string, private readonly accepts: (x: any) => boolean) {
+    super();
+  }
+
+  public toString() {
+    return this.name;
+  }
+
+  protected validateValue(x: any, path: string): string[] {
+    return this.accepts(x) ? [] : [problem(path, `expected ${this.name}, got ${JSON.stringify(x)}`)];
+  }
+}
+
+class ListSchema extends Schema {
+  constructor(private readonly item: Schema) {
+    super();
+  }
+
+  public toString() {
+    return `${this.item}[]`;
+  }
+
+  protected validateValue(x: any, path: string): string[] {
+    if (!Array.isArray(x)) {
+      return [problem(path, `expected list, got ${JSON.stringify(x)}`)];
+    }
+    return x.flatMap((e, i) => this.item.validate(e, `${path}[${i}]`));
+  }
+}
+
+class MapSchema extends Schema {
+  constructor(private readonly item: Schema) {
+    super();
+  }
+
+  public toString() {
+    return `Record<string, ${this.item}>`;
+  }
+
+  protected validateValue(x: any, path: string): string[] {
+    if (!isObject(x)) {
+      return [problem(path, `expected map, got ${JSON.stringify(x)}`)];
+    }
+    return Object.entries(x).flatMap(([k, v]) => this.item.validate(v, joinPath(path, k)));
+  }
+}
+
+class ObjectSchema extends Schema {
+  constructor(private readonly properties: Record<string, Schema>, private readonly required: string[]) {
+    super();
+  }
+
+  public toString() {
+    return `{ ${Object.keys(this.properties).join(', ')} }`;
+  }
+
+  protected validateValue(x: any, path: string): string[] {
+    if (!isObject(x)) {
+      return [problem(path, `expected object, got ${JSON.stringify(x)}`)];
+    }
+    return [
+      ...this.required.filter(k => x[k] === undefined).map(k => problem(joinPath(path, k), 'required')),
+      ...Object.entries(x).filter(([_, v]) => v !== undefined).flatMap(([k, v]) => this.properties[k]
+        ? this.properties[k].validate(v, joinPath(path, k))
+        : [problem(joinPath(path, k), `unknown property, expected one of ${Object.keys(this.properties).join(', ')}`)]),
+    ];
+  }
+}
+
+function isObject(x: any) {
+  return x && typeof x === 'object' && !Array.isArray(x);
+}
+
+function joinPath(path: string, key: string) {
+  return path ? `${path}.${key}` : key;
+}
+
+function problem(path: string, message: string) {
+  return path ? `${path}: ${message}` : message;
+}
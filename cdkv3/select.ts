@@ -0,0 +1,180 @@
+import { Construct, ILinkable, Linkable, StackTrace } from "./construct";
+
+/**
+ * Restrict where a linkable applies
+ *
+ * A selector is a combination of conditions that a construct must all meet,
+ * started with one of the static methods and extended with the instance
+ * methods of the same names:
+ *
+ * ```ts
+ * Select.path('Bucket/*').ofClass(Bucket).exactlyOne().apply(Bucket.BucketName('x'))
+ * ```
+ *
+ * Paths start at the construct `link()` is called on, with that construct's
+ * own id as the first component (nothing, if it's the root). `*` matches one
+ * path component and `**` any number of them.
+ */
+export class Select {
+  public static all() {
+    return new Select([], undefined);
+  }
+
+  public static path(glob: string) {
+    return Select.all().path(glob);
+  }
+
+  public static id(id: string) {
+    return Select.all().id(id);
+  }
+
+  public static ofClass(cls: new (...args: any[]) => Construct) {
+    return Select.all().ofClass(cls);
+  }
+
+  public static linksAs(type: string) {
+    return Select.all().linksAs(type);
+  }
+
+  public static where(pred: (x: Construct) => boolean, description = 'predicate') {
+    return Select.all().where(pred, description);
+  }
+
+  private constructor(private readonly conditions: Condition[], private readonly cardinality: Cardinality | undefined) {
+  }
+
+  public path(glob: string) {
+    const re = globToRegExp(glob);
+    return this.and(`path ${JSON.stringify(glob)}`, (x, root) => re.test(relativePath(x, root)));
+  }
+
+  public id(id: string) {
+    return this.and(`id ${JSON.stringify(id)}`, (x) => x.id === id);
+  }
+
+  public ofClass(cls: new (...args: any[]) => Construct) {
+    return this.and(`class ${cls.name}`, (x) => x instanceof cls);
+  }
+
+  public linksAs(type: string) {
+    return this.and(`linksAs ${JSON.stringify(type)}`, (x) => x.linksAs.includes(type));
+  }
+
+  public where(pred: (x: Construct) => boolean, description = 'predicate') {
+    return this.and(description, (x) => pred(x));
+  }
+
+  /**
+   * Require the linkable to apply to exactly one construct per `link()` call
+   */
+  public exactlyOne() {
+    return new Select(this.conditions, 'exactly one');
+  }
+
+  /**
+   * Require the linkable to apply to at least one construct per `link()` call
+   */
+  public atLeastOne() {
+    return new Select(this.conditions, 'at least one');
+  }
+
+  public matches(x: Construct, root?: Construct) {
+    return this.conditions.every(c => c.test(x, root));
+  }
+
+  /**
+   * Restrict the given linkable to the selected constructs
+   */
+  public apply(linkable: ILinkable): ILinkable {
+    return new SelectedLinkable(this, linkable);
+  }
+
+  public checkCardinality(matched: Construct[], candidates: Construct[]) {
+    const ok = this.cardinality === 'exactly one' ? matched.length === 1
+      : this.cardinality === 'at least one' ? matched.length >= 1
+      : true;
+    if (!ok) {
+      throw new Error([
+        `${this} matched ${matched.length} constructs, expected ${this.cardinality}. Candidates:`,
+        ...candidates.map(c => `  ${c}${matched.includes(c) ? ' (selected)' : ''}`),
+      ].join('\n'));
+    }
+  }
+
+  public toString() {
+    const parts = [...this.conditions.map(c => c.description), ...this.cardinality ? [this.cardinality] : []];
+    return `Select(${parts.join(', ')})`;
+  }
+
+  private and(description: string, test: Condition['test']) {
+    return new Select([...this.conditions, { description, test }], this.cardinality);
+  }
+}
+
+type Cardinality = 'exactly one' | 'at least one';
+
+interface Condition {
+  readonly description: string;
+  test(x: Construct, root?: Construct): boolean;
+}
+
+/**
+ * A linkable that only applies to the constructs a selector selects
+ */
+class SelectedLinkable implements ILinkable {
+  public readonly creationStack = StackTrace.capture();
+  private candidates = new Array<Construct>();
+  private matched = new Array<Construct>();
+
+  constructor(private readonly selector: Select, private readonly inner: ILinkable) {
+  }
+
+  public get linksTo() {
+    return this.inner.linksTo;
+  }
+
+  public linkTo(target: Construct): boolean {
+    this.candidates.push(target);
+    if (!this.selector.matches(target, Linkable.current?.root)) {
+      return false;
+    }
+    const linked = this.inner.linkTo(target) !== false;
+    if (linked) {
+      this.matched.push(target);
+    }
+    return linked;
+  }
+
+  public finishLink(root: Construct) {
+    const matched = this.matched;
+    const candidates = this.candidates;
+    this.matched = [];
+    this.candidates = [];
+
+    this.selector.checkCardinality(matched, candidates);
+    this.inner.finishLink?.(root);
+  }
+
+  public toString() {
+    return `${this.selector}.apply(${this.inner})`;
+  }
+}
+
+function relativePath(x: Construct, root?: Construct) {
+  const path = x.constructPath;
+  const rootPath = root?.constructPath.slice(0, -1) ?? [];
+  const inside = rootPath.every((p, i) => path[i] === p);
+  return (inside ? path.slice(rootPath.length) : path).join('/');
+}
+
+function globToRegExp(glob: string) {
+  const source = glob.split(/(\*\*\/|\*\*|\*)/).map(part => {
+    switch (part) {
+      case '**/': return '(?:.*/)?';
+      case '**': return '.*';
+      case '*': return '[^/]*';
+      default: return part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }).join('');
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,166 @@
+import { Construct } from "./construct";
+import { ScalarProperty } from "./core";
+import { CfnCloudFormationStack } from "./resources.generated";
+import { Output, Parameter } from "./synth";
+import { lazy } from "./tokens";
+
+export interface StackProps {
+  /**
+   * @default - the construct path, joined with dashes
+   */
+  readonly stackName?: string;
+
+  readonly description?: string;
+}
+
+/**
+ * A construct that renders into a template of its own
+ *
+ * References to resources in other stacks are turned into exports and
+ * `Fn::ImportValue`s when the stacks are synthesized, and make the consuming
+ * stack depend on the producing one.
+ */
+export class Stack extends Construct {
+  /**
+   * The stack the given construct renders into, if any
+   */
+  public static of(x: Construct): Stack | undefined {
+    const root = x.templateRoot;
+    return root instanceof Stack ? root : undefined;
+  }
+
+  public readonly stackName: string;
+  public readonly description?: string;
+  private readonly _dependencies = new Set<Stack>();
+
+  constructor(scope: Construct, id: string, props?: StackProps) {
+    super(scope, id);
+    this.stackName = props?.stackName ?? this.constructPath.join('-');
+    this.description = props?.description;
+  }
+
+  public get isTemplateRoot() {
+    return true;
+  }
+
+  /**
+   * The stacks that must be deployed before this one
+   */
+  public get dependencies(): Stack[] {
+    return Array.from(this._dependencies);
+  }
+
+  public addDependency(other: Stack) {
+    if (other !== this) {
+      this._dependencies.add(other);
+    }
+  }
+
+  public resolveReference(producer: Construct, value: any): any {
+    const producerStack = Stack.of(producer);
+    if (!producerStack) {
+      throw new Error(`Cannot reference ${producer} from ${this}: it is not in a Stack`);
+    }
+    return referenceBetween(this, producerStack, value);
+  }
+
+  /**
+   * Export a value from this stack, returning the export name
+   */
+  public exportValue(value: any): string {
+    const id = `ExportsOutput${referenceName(value)}`;
+    const exportName = `${this.stackName}:${id}`;
+    if (!this.children[id]) {
+      new Output(this, id, { value, exportName });
+    }
+    return exportName;
+  }
+}
+
+export interface NestedStackProps extends StackProps {
+  /**
+   * Where the nested stack's template is uploaded
+   *
+   * @default - the file name of the template, for deployment tooling to replace
+   */
+  readonly templateUrl?: string;
+}
+
+/**
+ * A stack that is deployed as an `AWS::CloudFormation::Stack` resource of its parent stack
+ *
+ * References between a nested stack and its parent are passed as parameters
+ * and outputs of the nested stack instead of exports.
+ */
+export class NestedStack extends Stack {
+  public readonly parentStack: Stack;
+  public readonly resource: CfnCloudFormationStack;
+
+  constructor(scope: Construct, id: string, props?: NestedStackProps) {
+    super(scope, id, props);
+    const parentStack = Stack.of(scope);
+    if (!parentStack) {
+      throw new Error(`NestedStack ${id} must be defined inside a Stack`);
+    }
+    this.parentStack = parentStack;
+    this.resource = new CfnCloudFormationStack(scope, `${id}Stack`, {
+      templateURL: props?.templateUrl ?? `${this.stackName}.template.json`,
+    });
+  }
+
+  /**
+   * Pass a value of the parent stack into this stack, returning a reference to it in this stack
+   */
+  public importFromParent(value: any): any {
+    const id = `Reference${referenceName(value)}`;
+    if (!this.children[id]) {
+      const param = new Parameter(this, id);
+      const parameters = this.resource.property('Parameters') as ScalarProperty;
+      parameters.set({ ...parameters.value, [param.logicalId]: lazy(() => value) });
+    }
+    return { Ref: (this.children[id] as Parameter).logicalId };
+  }
+
+  /**
+   * Pass a value of this stack to the parent stack, returning a reference to it in the parent
+   */
+  public exportToParent(value: any): any {
+    const id = `Output${referenceName(value)}`;
+    if (!this.children[id]) {
+      new Output(this, id, { value });
+    }
+    return { 'Fn::GetAtt': [this.resource.logicalId, `Outputs.${(this.children[id] as Output).logicalId}`] };
+  }
+}
+
+/**
+ * Turn a value of the producer stack into one that can be used in the consumer stack
+ *
+ * Values leave nested stacks through their parents, enter nested stacks from
+ * their parents and go between top-level stacks as exports.
+ */
+function referenceBetween(consumer: Stack, producer: Stack, value: any): any {
+  if (consumer === producer) {
+    return value;
+  }
+  if (producer instanceof NestedStack && !stackAncestors(consumer).includes(producer)) {
+    return referenceBetween(consumer, producer.parentStack, producer.exportToParent(value));
+  }
+  if (consumer instanceof NestedStack) {
+    return consumer.importFromParent(referenceBetween(consumer.parentStack, producer, value));
+  }
+
+  consumer.addDependency(producer);
+  return { 'Fn::ImportValue': producer.exportValue(value) };
+}
+
+function stackAncestors(stack: Stack): Stack[] {
+  return stack instanceof NestedStack ? [stack, ...stackAncestors(stack.parentStack)] : [stack];
+}
+
+/**
+ * An identifier for a referenced value, e.g. `RefBucket` for `{ Ref: 'Bucket' }`
+ */
+function referenceName(value: any) {
+  return JSON.stringify(value).replace(/[^A-Za-z0-9]/g, '');
+}
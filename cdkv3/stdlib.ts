@@ -1,113 +1,113 @@
-import { Construct, ILinkable, Linkable } from "./construct";
-import { DerivedProperty, LinkableSlot, CollectionProperty, CollectionTweak, Resource, ScalarProperty, ScalarTweak, IRenderable, LinkingTweak } from "./core";
+import { Construct, ILinkable, Linkable, Scope, StackTrace } from "./construct";
+import { prioritized, ScalarProperty, ScalarTweak } from "./core";
+import { CfnIAMManagedPolicy, CfnIAMManagedPolicyProps, CfnIAMPolicy, CfnIAMPolicyProps, CfnIAMRole, CfnIAMRoleProps, CfnS3Bucket, CfnS3BucketPolicy, CfnS3BucketPolicyProps, CfnS3BucketProps } from "./resources.generated";
+import { deepResolve, IRenderable, lazy, tokenToString } from "./tokens";
 
 //////////////////////////////////////////////////////////////////////
 // BUCKET
 
-export interface BucketProps {
-  readonly bucketName?: string;
-  readonly tags?: Bucket.Tag[];
-}
-
-export class Bucket extends Resource {
-  public static BucketName(name: string) {
-    return new ScalarTweak('AWS::S3::Bucket', 'BucketName', name);
-  }
-
-  public static Tag(key: string, value: string) {
-    return new CollectionTweak('AWS::S3::Bucket', 'Tags', { Key: key, Value: value });
-  }
-
-  public static LoggingConfigurationDestinationBucketName(name: string) {
-    return new ScalarTweak('AWS::S3::Bucket', 'BucketName', name);
-  }
-
-  public static LoggingConfigurationLogFilePrefix(prefix: string) {
-    return new ScalarTweak('AWS::S3::Bucket', 'BucketName', name);
-  }
-
-  constructor(scope: Construct, id: string, props?: BucketProps, linkables?: ILinkable[]) {
-    super(scope, id, 'AWS::S3::Bucket');
+export type BucketProps = CfnS3BucketProps;
 
-    this.makeLinkableAs('AWS::S3::Bucket');
-    this.addProperty('BucketName', new ScalarProperty());
-    this.addProperty('LoggingConfiguration', new ScalarProperty());
-    this.addProperty('Tags', new CollectionProperty());
-
-    this.link([
-      props?.bucketName ? Bucket.BucketName(props.bucketName) : undefined,
-      ...(props?.tags ?? []).map(t => Bucket.Tag(t.key, t.value)),
-      ...linkables ?? [],
-    ]);
-  }
-}
-
-export namespace Bucket {
-  export interface Tag {
-    readonly key: string;
-    readonly value: string;
-  }
+/**
+ * An S3 Bucket
+ *
+ * Everything it does comes from the specification for now, see `CfnS3Bucket`.
+ */
+export class Bucket extends CfnS3Bucket {
 }
 
 //////////////////////////////////////////////////////////////////////
 // BUCKETPOLICY
 
-export interface BucketPolicyProps {
-  readonly bucketName?: string;
-}
-
-export class BucketPolicy extends Resource implements ILinkable {
-  public static BucketName(bucketName: string) {
-    return new ScalarTweak('AWS::S3::BucketPolicy', 'BucketName', bucketName);
-  }
-
-  public static Bucket(bucket: Bucket) {
-    return new ScalarTweak('AWS::S3::BucketPolicy', 'BucketName', bucket.ref);
-  }
+export type BucketPolicyProps = CfnS3BucketPolicyProps;
 
-  public static AutomaticBucketName() {
-    return new LinkingTweak('AWS::S3::BucketPolicy', (pol: BucketPolicy) => {
-      pol.makeLinkableTo(['AWS::S3::Bucket'], (buck: Bucket) => {
-        BucketPolicy.Bucket(buck).linkTo(pol);
-      });
-    });
-  }
+/**
+ * A BucketPolicy with a PolicyDocument that statements can be linked to
+ *
+ * Like every `CfnS3BucketPolicy`, it applies to the bucket it is linked to or
+ * created in, unless it is given one.
+ */
+export class BucketPolicy extends CfnS3BucketPolicy implements ILinkable {
+  public static readonly Bucket = prioritized((priority) => (bucket: string | CfnS3Bucket) =>
+    new ScalarTweak('AWS::S3::BucketPolicy', 'Bucket', typeof bucket === 'string' ? bucket : bucket.ref, priority));
 
   public readonly policyDocument: PolicyDocument;
 
   constructor(scope: Construct, id: string, props?: BucketPolicyProps, links?: ILinkable[]) {
-    super(scope, id, 'AWS::S3::BucketPolicy');
+    super(scope, id, props);
 
-    this.makeLinkableAs('AWS::S3::BucketPolicy');
-
-    this.addProperty('BucketName', new ScalarProperty(props?.bucketName));
-    this.policyDocument = new PolicyDocument(this, 'PolicyDocument');
-    this.addProperty('PolicyDocument', new ScalarProperty(this.policyDocument));
-
-    this.link(links);
+    this.policyDocument = new PolicyDocument(this, 'PolicyDocument', { type: 'resource' });
+    this.link([
+      CfnS3BucketPolicy.PolicyDocument(this.policyDocument),
+      ...links ?? [],
+    ]);
   }
 }
 
 //////////////////////////////////////////////////////////////////////
 // POLICYDOCUMENT
 
+/**
+ * What a policy document is attached to, which decides what its statements need
+ *
+ * - `resource` policies (bucket policies, trust policies) say who can access
+ *   the resource, so every statement needs principals.
+ * - `identity` policies (attached to roles, users and groups) say what the
+ *   identity can access, so statements need resources and can't have principals.
+ */
+export type PolicyDocumentType = 'resource' | 'identity';
+
+export interface PolicyDocumentProps {
+  /**
+   * @default - only the checks that apply to every policy
+   */
+  readonly type?: PolicyDocumentType;
+
+  /**
+   * What statements link to
+   *
+   * Documents that shouldn't pick up the statements linked to their
+   * resource, like a role's trust policy, use a different name.
+   *
+   * @default '@aws-cdk/iam:PolicyDocument'
+   */
+  readonly linkableAs?: string;
+}
+
+/**
+ * An IAM policy document that statements can be linked to
+ *
+ * Statements with the same effect, principals and conditions are merged when
+ * they have the same actions (or resources): their resources (or actions) are
+ * combined. Statements with a `Sid` are left alone.
+ */
 export class PolicyDocument extends Construct implements IPolicyDocument, IRenderable {
   public readonly statements = new Array<PolicyStatement>();
+  public readonly type?: PolicyDocumentType;
 
-  constructor(scope: Construct, id: string) {
+  constructor(scope: Construct, id: string, props?: PolicyDocumentProps) {
     super(scope, id);
-    this.makeLinkableAs('@aws-cdk/iam:PolicyDocument');
+    this.type = props?.type;
+    this.makeLinkableAs(props?.linkableAs ?? '@aws-cdk/iam:PolicyDocument');
   }
 
   public render() {
+    const problems = this.statements.flatMap(s => s.validate(this.type).map(p => `${s}: ${p}`));
+    if (problems.length > 0) {
+      throw new Error(`Invalid ${this}:\n${problems.map(p => `  ${p}`).join('\n')}`);
+    }
+
     return {
-      Version: '2012-10-12',
-      Statement: this.statements.map(x => x.render()),
+      Version: '2012-10-17',
+      Statement: mergeStatements(this.statements, (x) => deepResolve(x, this)).map(x => x.render()),
     };
   }
 
   public addStatement(statement: PolicyStatement): void {
-    this.statements.push(statement);
+    // A statement can reach the same document through its resource and directly
+    if (!this.statements.includes(statement)) {
+      this.statements.push(statement);
+    }
   }
 }
 
@@ -119,20 +119,121 @@ function isPolicyDocument(x: any): x is IPolicyDocument {
   return x && typeof x === 'object' && (x as any).addStatement;
 }
 
+function mergeStatements(statements: PolicyStatement[], resolve: (x: any) => any): PolicyStatement[] {
+  const ret = new Array<PolicyStatement>();
+  for (const statement of statements) {
+    const i = ret.findIndex(s => s.mergeWith(statement, resolve) !== undefined);
+    if (i === -1) {
+      ret.push(statement);
+    } else {
+      ret[i] = ret[i].mergeWith(statement, resolve)!;
+    }
+  }
+  return ret;
+}
+
+//////////////////////////////////////////////////////////////////////
+// PRINCIPALS
+
+export type PrincipalType = 'AWS' | 'Service' | 'Federated' | 'CanonicalUser';
+
+/**
+ * Who a policy statement applies to
+ */
+export class Principal {
+  /**
+   * Every identity in an AWS account that its own policies allow
+   */
+  public static account(accountId: string) {
+    return new Principal('AWS', `arn:aws:iam::${accountId}:root`);
+  }
+
+  /**
+   * A role, user or account by ARN
+   */
+  public static arn(arn: string) {
+    return new Principal('AWS', arn);
+  }
+
+  /**
+   * An AWS service, e.g. `lambda.amazonaws.com`
+   */
+  public static service(service: string) {
+    return new Principal('Service', service);
+  }
+
+  /**
+   * Users of a SAML or OIDC identity provider, by provider ARN or name (e.g. `cognito-identity.amazonaws.com`)
+   */
+  public static federated(provider: string) {
+    return new Principal('Federated', provider);
+  }
+
+  public static canonicalUser(canonicalUserId: string) {
+    return new Principal('CanonicalUser', canonicalUserId);
+  }
+
+  /**
+   * Everyone, including anonymous users
+   */
+  public static anyone() {
+    return new Principal('AWS', '*');
+  }
+
+  private constructor(public readonly type: PrincipalType, public readonly value: string) {
+  }
+
+  public toString() {
+    return `${this.type}:${this.value}`;
+  }
+}
+
+/**
+ * Render principals the way IAM expects them: grouped by type, as a single value if there is only one
+ */
+function renderPrincipals(principals: Principal[]) {
+  const ret: Record<string, any> = {};
+  for (const type of unique(principals.map(p => p.type))) {
+    ret[type] = normalizeList(principals.filter(p => p.type === type).map(p => p.value));
+  }
+  return ret;
+}
 
 //////////////////////////////////////////////////////////////////////
 // POLICYSTATEMENT
 
+export type Effect = 'Allow' | 'Deny';
+
 export interface PolicyStatementProps {
   readonly policyDocument?: IPolicyDocument;
+
+  /**
+   * An identifier for the statement, unique in its document
+   *
+   * Statements with a `Sid` are never merged with other statements.
+   */
+  readonly sid?: string;
+
+  /**
+   * @default 'Allow'
+   */
+  readonly effect?: Effect;
   readonly actions?: string[];
-  readonly effect?: string;
+  readonly notActions?: string[];
   readonly resources?: string[];
-  readonly principals?: string[];
+  readonly notResources?: string[];
+  readonly principals?: Principal[];
+  readonly notPrincipals?: Principal[];
+
+  /**
+   * Conditions, by operator and then by key, e.g. `{ Bool: { 'aws:SecureTransport': 'false' } }`
+   */
+  readonly conditions?: Record<string, Record<string, any>>;
 }
 
 export class PolicyStatement implements ILinkable, IRenderable {
   public linksTo: string[] = ['@aws-cdk/iam:PolicyDocument'];
+  public readonly creationStack = StackTrace.capture();
 
   constructor(private readonly props?: PolicyStatementProps) {
     // FIXME: This is duplicated with 'linkTo'
@@ -147,16 +248,298 @@ export class PolicyStatement implements ILinkable, IRenderable {
     }
   }
 
+  public get effect(): Effect {
+    return this.props?.effect ?? 'Allow';
+  }
+
+  /**
+   * The problems with this statement, for a document of the given type
+   */
+  public validate(type?: PolicyDocumentType): string[] {
+    const p = this.props ?? {};
+    const present = (xs?: any[]) => xs !== undefined && xs.length > 0;
+    const problems = new Array<string>();
+    if (!present(p.actions) && !present(p.notActions)) {
+      problems.push('statement has no actions or notActions');
+    }
+    for (const [a, b] of [['actions', 'notActions'], ['resources', 'notResources'], ['principals', 'notPrincipals']] as const) {
+      if (present(p[a]) && present(p[b])) {
+        problems.push(`statement cannot have both ${a} and ${b}`);
+      }
+    }
+    if (type === 'resource' && !present(p.principals) && !present(p.notPrincipals)) {
+      problems.push('statements in resource policies need principals or notPrincipals');
+    }
+    if (type === 'identity' && (present(p.principals) || present(p.notPrincipals))) {
+      problems.push('statements in identity policies cannot have principals');
+    }
+    if (type === 'identity' && !present(p.resources) && !present(p.notResources)) {
+      problems.push('statements in identity policies need resources or notResources');
+    }
+    return problems;
+  }
+
+  /**
+   * This statement and the other one as a single statement, if that grants the same
+   *
+   * Statements can be merged if they only differ in their actions or only in
+   * their resources. Values are compared after `resolve`, so different tokens
+   * for the same value compare equal.
+   */
+  public mergeWith(other: PolicyStatement, resolve: (x: any) => any = (x) => x): PolicyStatement | undefined {
+    const a = this.props ?? {};
+    const b = other.props ?? {};
+    const key = (x: any) => JSON.stringify(resolve(x));
+    const same = (x: any, y: any) => key(x ?? []) === key(y ?? []);
+    const sameSet = (x?: any[], y?: any[]) => same(unique(x ?? [], key).map(key).sort(), unique(y ?? [], key).map(key).sort());
+    const mergeable = a.sid === undefined && b.sid === undefined
+      && this.effect === other.effect
+      && sameSet(a.principals, b.principals) && sameSet(a.notPrincipals, b.notPrincipals)
+      && same(a.conditions ?? {}, b.conditions ?? {})
+      && !a.notActions?.length && !b.notActions?.length
+      && !a.notResources?.length && !b.notResources?.length;
+    if (!mergeable) {
+      return undefined;
+    }
+    if (sameSet(a.actions, b.actions)) {
+      return new PolicyStatement({ ...a, policyDocument: undefined, resources: unique([...a.resources ?? [], ...b.resources ?? []], key) });
+    }
+    if (sameSet(a.resources, b.resources)) {
+      return new PolicyStatement({ ...a, policyDocument: undefined, actions: unique([...a.actions ?? [], ...b.actions ?? []], key) });
+    }
+    return undefined;
+  }
+
   public render() {
-    return {
-      Effect: this.props?.effect ?? 'Allow',
-      Action: this.props?.actions,
-      Resource: this.props?.resources,
-      Principal: this.props?.principals,
-    };
+    const p = this.props ?? {};
+    const ret: Record<string, any> = {};
+    if (p.sid !== undefined) { ret.Sid = p.sid; }
+    ret.Effect = this.effect;
+    if (p.principals?.length) { ret.Principal = renderPrincipals(p.principals); }
+    if (p.notPrincipals?.length) { ret.NotPrincipal = renderPrincipals(p.notPrincipals); }
+    if (p.actions?.length) { ret.Action = normalizeList(p.actions); }
+    if (p.notActions?.length) { ret.NotAction = normalizeList(p.notActions); }
+    if (p.resources?.length) { ret.Resource = normalizeList(p.resources); }
+    if (p.notResources?.length) { ret.NotResource = normalizeList(p.notResources); }
+    if (p.conditions !== undefined && Object.keys(p.conditions).length > 0) { ret.Condition = p.conditions; }
+    return ret;
+  }
+
+  public toString() {
+    return `PolicyStatement(${JSON.stringify(this.render())})`;
+  }
+}
+
+/**
+ * A list without duplicates, or its only element
+ */
+function normalizeList(xs: string[]): string | string[] {
+  const ret = unique(xs);
+  return ret.length === 1 ? ret[0] : ret;
+}
+
+function unique<A>(xs: A[], key: (x: A) => string = (x) => JSON.stringify(x)): A[] {
+  const seen = new Set<string>();
+  return xs.filter(x => {
+    const k = key(x);
+    if (seen.has(k)) { return false; }
+    seen.add(k);
+    return true;
+  });
+}
+
+//////////////////////////////////////////////////////////////////////
+// ROLE
+
+export interface RoleProps extends CfnIAMRoleProps {
+  /**
+   * Who can assume the role, as the trust policy
+   *
+   * @default - the `assumeRolePolicyDocument` must be given
+   */
+  readonly assumedBy?: Principal;
+}
+
+/**
+ * An IAM Role
+ *
+ * Statements linked to the role end up in its default policy, a `Policy`
+ * that is created for the role when the first statement arrives.
+ */
+export class Role extends CfnIAMRole implements IPolicyDocument {
+  /**
+   * The trust policy, if the role was created with `assumedBy`
+   */
+  public readonly assumeRolePolicy?: PolicyDocument;
+  private _defaultPolicy?: Policy;
+
+  constructor(scope: Construct, id: string, props?: RoleProps, links?: ILinkable[]) {
+    super(scope, id, props);
+    this.makeLinkableAs('@aws-cdk/iam:PolicyDocument');
+
+    if (props?.assumedBy) {
+      this.assumeRolePolicy = new PolicyDocument(this, 'AssumeRolePolicy', {
+        type: 'resource',
+        linkableAs: '@aws-cdk/iam:AssumeRolePolicyDocument',
+      });
+      new PolicyStatement({ policyDocument: this.assumeRolePolicy, actions: ['sts:AssumeRole'], principals: [props.assumedBy] });
+    }
+
+    this.link([
+      this.assumeRolePolicy ? CfnIAMRole.AssumeRolePolicyDocument(this.assumeRolePolicy) : undefined,
+      ...links ?? [],
+    ]);
+  }
+
+  public get defaultPolicy(): Policy {
+    if (!this._defaultPolicy) {
+      this._defaultPolicy = new Policy(this, 'DefaultPolicy', { roles: [this.ref] });
+    }
+    return this._defaultPolicy;
+  }
+
+  public addStatement(statement: PolicyStatement): void {
+    this.defaultPolicy.policyDocument.addStatement(statement);
+  }
+}
+
+//////////////////////////////////////////////////////////////////////
+// POLICY
+
+export type PolicyProps = CfnIAMPolicyProps;
+
+/**
+ * An inline IAM Policy with a PolicyDocument that statements can be linked to
+ *
+ * Linking the policy to a role (or creating it in one) attaches it to the
+ * role. The policy name defaults to the logical ID.
+ */
+export class Policy extends CfnIAMPolicy {
+  public readonly policyDocument: PolicyDocument;
+
+  constructor(scope: Construct, id: string, props?: PolicyProps, links?: ILinkable[]) {
+    super(scope, id, props);
+
+    this.policyDocument = new PolicyDocument(this, 'PolicyDocument', { type: 'identity' });
+    this.link([
+      CfnIAMPolicy.PolicyDocument(this.policyDocument),
+      CfnIAMPolicy.PolicyName.default(tokenToString(lazy(() => this.logicalId), this)),
+      ...links ?? [],
+    ]);
+  }
+}
+
+//////////////////////////////////////////////////////////////////////
+// MANAGEDPOLICY
+
+export type ManagedPolicyProps = CfnIAMManagedPolicyProps;
+
+/**
+ * An IAM ManagedPolicy with a PolicyDocument that statements can be linked to
+ *
+ * Linking the policy to a role (or creating it in one) attaches it to the role.
+ */
+export class ManagedPolicy extends CfnIAMManagedPolicy {
+  public readonly policyDocument: PolicyDocument;
+
+  constructor(scope: Construct, id: string, props?: ManagedPolicyProps, links?: ILinkable[]) {
+    super(scope, id, props);
+
+    this.policyDocument = new PolicyDocument(this, 'PolicyDocument', { type: 'identity' });
+    this.link([
+      CfnIAMManagedPolicy.PolicyDocument(this.policyDocument),
+      ...links ?? [],
+    ]);
+  }
+}
+
+//////////////////////////////////////////////////////////////////////
+// GRANTS
+
+/**
+ * Who a grant gives access to: a role in the app, or a principal outside it
+ */
+export type Grantee = Role | Principal;
+
+/**
+ * Modifiers that give a grantee access to a bucket
+ *
+ * Pass them to the grantee with the bucket, or to the bucket with the grantee:
+ *
+ * ```ts
+ * new Role(scope, 'Reader', { assumedBy: Principal.service('lambda.amazonaws.com') }, [Grant.read(bucket)]);
+ * new Bucket(scope, 'Bucket', {}, [Grant.write(role), Grant.read(Principal.account('123456789012'))]);
+ * ```
+ *
+ * Roles get the permissions in their default policy. Principals outside the
+ * app get them in the bucket's BucketPolicy, which is created if the bucket
+ * doesn't have one yet.
+ */
+export class Grant implements ILinkable {
+  public static read(x: CfnS3Bucket | Grantee) {
+    return new Grant('read', ['s3:GetObject*', 's3:GetBucket*', 's3:List*'], x);
+  }
+
+  public static write(x: CfnS3Bucket | Grantee) {
+    return new Grant('write', ['s3:DeleteObject*', 's3:PutObject', 's3:PutObjectLegalHold', 's3:PutObjectRetention', 's3:PutObjectTagging', 's3:PutObjectVersionTagging', 's3:Abort*'], x);
+  }
+
+  public readonly linksTo = ['AWS::IAM::Role', 'AWS::S3::Bucket'];
+  public readonly creationStack = StackTrace.capture();
+
+  private constructor(private readonly name: string, private readonly actions: string[], private readonly other: CfnS3Bucket | Grantee) {
+  }
+
+  public linkTo(target: Construct): boolean {
+    if (target instanceof CfnS3Bucket && !(this.other instanceof CfnS3Bucket)) {
+      this.grant(this.other, target);
+      return true;
+    }
+    if (target instanceof Role && this.other instanceof CfnS3Bucket) {
+      this.grant(target, this.other);
+      return true;
+    }
+    return false;
   }
 
   public toString() {
-    return `PolicyStatement(${JSON.stringify(this.props)})`;
+    return `Grant.${this.name}(${this.other})`;
+  }
+
+  private grant(grantee: Grantee, bucket: CfnS3Bucket) {
+    const resources = [bucket.arn, `${bucket.arn}/*`];
+    if (grantee instanceof Principal) {
+      const statement = new PolicyStatement({ actions: this.actions, resources, principals: [grantee] });
+      bucketPolicyOf(bucket).policyDocument.addStatement(statement);
+    } else {
+      grantee.addStatement(new PolicyStatement({ actions: this.actions, resources }));
+    }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * The BucketPolicy of a bucket, created floating and linked to the bucket if there isn't one yet
+ */
+function bucketPolicyOf(bucket: CfnS3Bucket): BucketPolicy {
+  const refersToBucket = (p: BucketPolicy) =>
+    JSON.stringify(deepResolve((p.property('Bucket') as ScalarProperty).value, p)) === JSON.stringify(deepResolve(bucket.ref, p));
+  const existing = bucket.root.findAll((x): x is BucketPolicy => x instanceof BucketPolicy).find(refersToBucket);
+  if (existing) {
+    return existing;
+  }
+
+  const policy = new BucketPolicy(Scope.FLOATING, freeChildId(bucket, 'Policy'), { bucket: bucket.ref });
+  bucket.link([policy]);
+  return policy;
+}
+
+/**
+ * The given id, or the first of `<id>2`, `<id>3`, ... that the scope doesn't have a child for
+ */
+function freeChildId(scope: Construct, id: string) {
+  let ret = id;
+  for (let i = 2; scope.tryFindChild(ret); i++) {
+    ret = `${id}${i}`;
+  }
+  return ret;
+}
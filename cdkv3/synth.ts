@@ -0,0 +1,351 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Construct } from "./construct";
+import { Resource } from "./core";
+import { Fn } from "./fn";
+import { LogicalIds } from "./ids";
+import { NestedStack, Stack } from "./stacks";
+import { treeManifest } from "./tree";
+import { deepResolve, lazy, tokenToList, tokenToNumber, tokenToString } from "./tokens";
+
+//////////////////////////////////////////////////////////////////////
+// TEMPLATE ELEMENTS
+
+export type TemplateSection = 'Parameters' | 'Mappings' | 'Conditions' | 'Outputs';
+
+/**
+ * A construct that renders to an entry in a template section other than `Resources`
+ */
+export abstract class TemplateElement extends Construct {
+  public static findAll(scope: Construct) {
+    const ret = new Array<TemplateElement>();
+
+    const stack: Array<Construct> = [scope];
+    while (stack.length > 0) {
+      const first = stack.shift()!;
+
+      if (first instanceof TemplateElement) {
+        ret.push(first);
+      }
+
+      stack.push(...Object.values(first.children).filter(c => !c.isTemplateRoot));
+    }
+    return ret;
+  }
+
+  constructor(scope: Construct, id: string, public readonly section: TemplateSection) {
+    super(scope, id);
+  }
+
+  public get logicalId() {
+    return LogicalIds.of(this);
+  }
+
+  /**
+   * Use the given logical ID instead of the one derived from the construct path
+   */
+  public overrideLogicalId(logicalId: string) {
+    LogicalIds.override(this, logicalId);
+  }
+
+  public abstract render(): any;
+}
+
+export interface ParameterProps {
+  readonly type?: string;
+  readonly default?: any;
+  readonly description?: string;
+  readonly allowedValues?: string[];
+  readonly noEcho?: boolean;
+}
+
+export class Parameter extends TemplateElement {
+  constructor(scope: Construct, id: string, private readonly props?: ParameterProps) {
+    super(scope, id, 'Parameters');
+  }
+
+  public get value() {
+    return Fn.ref(this);
+  }
+
+  public get valueAsNumber() {
+    return tokenToNumber(lazy(() => ({ Ref: this.logicalId })), this, this);
+  }
+
+  public get valueAsList() {
+    return tokenToList(lazy(() => ({ Ref: this.logicalId })), this, this);
+  }
+
+  public render() {
+    return {
+      Type: this.props?.type ?? 'String',
+      Default: this.props?.default,
+      Description: this.props?.description,
+      AllowedValues: this.props?.allowedValues,
+      NoEcho: this.props?.noEcho,
+    };
+  }
+}
+
+export interface OutputProps {
+  readonly value: any;
+  readonly description?: string;
+  readonly exportName?: string;
+  readonly condition?: Condition;
+}
+
+export class Output extends TemplateElement {
+  constructor(scope: Construct, id: string, private readonly props: OutputProps) {
+    super(scope, id, 'Outputs');
+  }
+
+  public render() {
+    return {
+      Value: this.props.value,
+      Description: this.props.description,
+      Export: this.props.exportName !== undefined ? { Name: this.props.exportName } : undefined,
+      Condition: this.props.condition?.logicalId,
+    };
+  }
+}
+
+export interface ConditionProps {
+  /**
+   * The condition expression, e.g. `{ 'Fn::Equals': [param.value, 'prod'] }`
+   */
+  readonly expression: any;
+}
+
+export class Condition extends TemplateElement {
+  constructor(scope: Construct, id: string, private readonly props: ConditionProps) {
+    super(scope, id, 'Conditions');
+  }
+
+  public render() {
+    return this.props.expression;
+  }
+}
+
+export class Mapping extends TemplateElement {
+  constructor(scope: Construct, id: string, private readonly mapping: Record<string, Record<string, any>>) {
+    super(scope, id, 'Mappings');
+  }
+
+  public findInMap(topLevelKey: string, secondLevelKey: string) {
+    return tokenToString(lazy(() => ({ 'Fn::FindInMap': [this.logicalId, topLevelKey, secondLevelKey] })), this, this);
+  }
+
+  public render() {
+    return this.mapping;
+  }
+}
+
+//////////////////////////////////////////////////////////////////////
+// SYNTHESIS
+
+export interface CloudFormationTemplate {
+  readonly AWSTemplateFormatVersion: string;
+  readonly Description?: string;
+  readonly Metadata?: Record<string, any>;
+  readonly Parameters?: Record<string, any>;
+  readonly Mappings?: Record<string, any>;
+  readonly Conditions?: Record<string, any>;
+  readonly Resources: Record<string, any>;
+  readonly Outputs?: Record<string, any>;
+}
+
+export interface SynthesisOptions {
+  /**
+   * @default - the description of the stack being synthesized, if any
+   */
+  readonly description?: string;
+  readonly metadata?: Record<string, any>;
+}
+
+export interface OutputOptions {
+  /**
+   * Also write `tree.json`, describing every construct and the links between them
+   *
+   * @default false
+   */
+  readonly treeManifest?: boolean;
+}
+
+/**
+ * The template of a single stack
+ */
+export interface StackArtifact {
+  readonly stackName: string;
+  readonly template: CloudFormationTemplate;
+
+  /**
+   * The names of the stacks that must be deployed before this one
+   */
+  readonly dependencies: string[];
+
+  /**
+   * The name of the stack this stack is nested in, if any
+   */
+  readonly parentStack?: string;
+}
+
+export class Synthesizer {
+  /**
+   * Render all template elements in the given scope to a complete CloudFormation template
+   */
+  public static synthesize(scope: Construct, options?: SynthesisOptions): CloudFormationTemplate {
+    // Aspects can add outputs and parameters too, so run them before looking for any
+    scope.seal();
+    const sections: Record<TemplateSection, Record<string, any>> = {
+      Parameters: {},
+      Mappings: {},
+      Conditions: {},
+      Outputs: {},
+    };
+
+    const elements = TemplateElement.findAll(scope);
+    elements.sort((a, b) => a.constructPath.join('/').localeCompare(b.constructPath.join('/')));
+    for (const el of elements) {
+      sections[el.section][el.logicalId] = withoutUndefined(el.render());
+    }
+
+    const description = options?.description ?? (scope instanceof Stack ? scope.description : undefined);
+    return {
+      AWSTemplateFormatVersion: '2010-09-09',
+      ...description !== undefined ? { Description: description } : {},
+      ...options?.metadata !== undefined ? { Metadata: options.metadata } : {},
+      ...nonEmpty('Parameters', deepResolve(sections.Parameters, scope)),
+      ...nonEmpty('Mappings', deepResolve(sections.Mappings, scope)),
+      ...nonEmpty('Conditions', deepResolve(sections.Conditions, scope)),
+      Resources: Resource.renderAll(scope),
+      ...nonEmpty('Outputs', deepResolve(sections.Outputs, scope)),
+    };
+  }
+
+  /**
+   * Render every stack in the app to a template of its own
+   *
+   * Returns the stacks in deployment order: every stack comes after the
+   * stacks it depends on, and nested stacks come before their parents.
+   */
+  public static synthesizeStacks(root: Construct): StackArtifact[] {
+    root.seal();
+    const outside = [...Resource.findAll(root), ...TemplateElement.findAll(root)];
+    if (!(root instanceof Stack) && outside.length > 0) {
+      throw new Error(`Every resource must be in a Stack, but these are not: ${outside.join(', ')}`);
+    }
+
+    // Rendering adds the exports, outputs and parameters that references
+    // between stacks need, so render everything once before the real thing.
+    const stacks = root.descendants.filter((x): x is Stack => x instanceof Stack);
+    stacks.forEach(stack => Synthesizer.synthesize(stack));
+    const templates = new Map(stacks.map(stack => [stack, Synthesizer.synthesize(stack)]));
+
+    return deploymentOrder(stacks).map(stack => ({
+      stackName: stack.stackName,
+      template: templates.get(stack)!,
+      dependencies: stack.dependencies.map(d => d.stackName),
+      ...stack instanceof NestedStack ? { parentStack: stack.parentStack.stackName } : {},
+    }));
+  }
+
+  /**
+   * Write the templates of an app to a directory, returning the files written
+   *
+   * Every stack is written to `<stackName>.template.json`, or the whole app to
+   * `template.json` if it has no stacks.
+   */
+  public static write(root: Construct, outdir: string, options?: OutputOptions): string[] {
+    const files: Record<string, any> = root.findAll(x => x instanceof Stack).length > 0
+      ? Object.fromEntries(Synthesizer.synthesizeStacks(root).map(s => [`${s.stackName}.template.json`, s.template]))
+      : { 'template.json': Synthesizer.synthesize(root) };
+    if (options?.treeManifest) {
+      files['tree.json'] = treeManifest(root);
+    }
+
+    fs.mkdirSync(outdir, { recursive: true });
+    return Object.entries(files).map(([name, contents]) => {
+      const file = path.join(outdir, name);
+      fs.writeFileSync(file, JSON.stringify(contents, undefined, 2));
+      return file;
+    });
+  }
+
+  public static toJson(template: CloudFormationTemplate): string {
+    return JSON.stringify(template, undefined, 2);
+  }
+
+  public static toYaml(template: CloudFormationTemplate): string {
+    return renderYaml(template, '').replace(/^\n/, '') + '\n';
+  }
+}
+
+function deploymentOrder(stacks: Stack[]): Stack[] {
+  const ret = new Array<Stack>();
+  const visiting = new Array<Stack>();
+
+  const visit = (stack: Stack) => {
+    if (ret.includes(stack)) { return; }
+
+    const i = visiting.indexOf(stack);
+    if (i > -1) {
+      const cycle = [...visiting.slice(i), stack];
+      throw new Error(`Dependency cycle between stacks: ${cycle.map(s => s.stackName).join(' -> ')}`);
+    }
+
+    visiting.push(stack);
+    const nested = stacks.filter(s => s instanceof NestedStack && s.parentStack === stack);
+    for (const dep of [...nested, ...stack.dependencies]) {
+      visit(dep);
+    }
+    visiting.pop();
+    ret.push(stack);
+  };
+
+  stacks.forEach(visit);
+  return ret;
+}
+
+function nonEmpty(key: string, section: Record<string, any>) {
+  return Object.keys(section).length > 0 ? { [key]: section } : {};
+}
+
+function withoutUndefined(x: any) {
+  if (!x || typeof x !== 'object' || Array.isArray(x)) {
+    return x;
+  }
+  return Object.fromEntries(Object.entries(x).filter(([_, v]) => v !== undefined));
+}
+
+//////////////////////////////////////////////////////////////////////
+// YAML
+
+/**
+ * Render a JSON value as block-style YAML
+ *
+ * Every value renders with its own leading separator (a space for inline
+ * values, a newline for blocks), so it can be appended directly after a
+ * `key:` or `-`.
+ */
+function renderYaml(x: any, indent: string): string {
+  if (Array.isArray(x)) {
+    if (x.length === 0) { return ' []'; }
+    return x.map(e => `\n${indent}-${renderYaml(e, indent + '  ').replace(/^\n\s*/, ' ')}`).join('');
+  }
+  if (x && typeof x === 'object') {
+    const entries = Object.entries(x).filter(([_, v]) => v !== undefined);
+    if (entries.length === 0) { return ' {}'; }
+    return entries.map(([k, v]) => `\n${indent}${yamlScalar(k)}:${renderYaml(v, indent + '  ')}`).join('');
+  }
+  return ` ${yamlScalar(x)}`;
+}
+
+function yamlScalar(x: any): string {
+  if (typeof x !== 'string') {
+    return JSON.stringify(x ?? null);
+  }
+  const plain = /^[A-Za-z_\/$][\w.\/@$:-]*$/.test(x)
+    && !x.endsWith(':')
+    && !/^(true|false|yes|no|on|off|null|~)$/i.test(x);
+  return plain ? x : JSON.stringify(x);
+}
@@ -1,31 +1,398 @@
-const TOKENS = new Map<string, any>();
-let ctr = 1;
+import * as crypto from "crypto";
+import { Construct, Scope } from "./construct";
 
-export function tokenToString(x: any): string {
+/**
+ * A value that is only computed at render time
+ */
+export interface IResolvable {
+  resolve(): any;
+}
+
+export function isResolvable(x: any): x is IResolvable {
+  return x && typeof x === 'object' && typeof (x as IResolvable).resolve === 'function';
+}
+
+export function lazy(fn: () => any): IResolvable {
+  return { resolve: fn };
+}
+
+/**
+ * A value that renders itself into the template
+ */
+export interface IRenderable {
+  render(): any;
+}
+
+export function isRenderable(x: any): x is IRenderable {
+  return x && typeof x === 'object' && (x as IRenderable).render;
+}
+
+/**
+ * The value a token stands in for
+ */
+export interface TokenRecord {
+  readonly value: any;
+
+  /**
+   * The construct that the value refers to, if any
+   */
+  readonly producer?: Construct;
+}
+
+// Strings can contain any number of tokens, lists are encoded as a single-element
+// list with a marker, and numbers as doubles with a marker in the high bits.
+//
+// Every token carries a check of where it was registered: a hash of the
+// number and the path of the construct that registered it. A token from a
+// different app is an error instead of resolving to whatever that app has
+// under the same number, and token strings only depend on the app itself.
+const STRING_TOKEN = /\$\{Token(\d+)@([0-9a-f]{6})\}/g;
+const LIST_TOKEN = /^#\{Token(\d+)@([0-9a-f]{6})\}$/;
+const DOUBLE_TOKEN_MARKER = 0xFB000000;
+const DOUBLE_TOKEN_CHECK_BITS = 0x00FFFFFF;
+
+const REGISTRIES = new WeakMap<Construct, TokenRegistry>();
+
+/**
+ * The tokens of a single construct tree
+ *
+ * Tokens are numbered per tree. A floating construct has a registry of its
+ * own, which the tree it is moved into adopts, so its tokens keep resolving
+ * and nothing is kept alive by the process.
+ *
+ * A token of another app only resolves if this app registered a token under
+ * the same number at the same path, which then stands for the same thing.
+ */
+export class TokenRegistry {
+  public static of(scope: Construct): TokenRegistry {
+    let root = scope;
+    while (root.scope && root.scope !== Scope.FLOATING) {
+      root = root.scope;
+    }
+
+    let ret = REGISTRIES.get(root);
+    if (!ret) {
+      ret = new TokenRegistry(root);
+      REGISTRIES.set(root, ret);
+    }
+    return ret;
+  }
+
+  private readonly tokens = new Map<number, TokenRecord & { readonly check: number }>();
+  private readonly adopted = new Set<TokenRegistry>();
+  private ctr = 1;
+
+  private constructor(private readonly root: Construct) {
+  }
+
+  public register(x: any, scope: Construct, producer?: Construct): TokenReference {
+    const n = this.ctr++;
+    const check = tokenCheck(n, scope);
+    this.tokens.set(n, { value: x, producer, check });
+    return { n, check };
+  }
+
+  /**
+   * Find a token of this registry, or of a floating construct that has since been moved into this tree
+   */
+  public lookup(ref: TokenReference): TokenRecord {
+    const found = this.find(ref);
+    if (!found) {
+      throw new Error(`Unknown token ${tokenString(ref)}: was it created in a different app?`);
+    }
+    return found;
+  }
+
+  private find(ref: TokenReference): TokenRecord | undefined {
+    const found = this.findOwn(ref) ?? this.findAdopted(ref);
+    if (found) {
+      return found;
+    }
+    this.adoptFloating();
+    return this.findAdopted(ref);
+  }
+
+  private findOwn(ref: TokenReference): TokenRecord | undefined {
+    const record = this.tokens.get(ref.n);
+    return record?.check === ref.check ? record : undefined;
+  }
+
+  private findAdopted(ref: TokenReference): TokenRecord | undefined {
+    for (const registry of this.adopted) {
+      const found = registry.findOwn(ref);
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Adopt the registries of the formerly floating constructs in this tree
+   */
+  private adoptFloating() {
+    if (this.root === Scope.FLOATING) {
+      return;
+    }
+    for (const x of this.root.descendants) {
+      const registry = REGISTRIES.get(x);
+      if (registry) {
+        this.adopted.add(registry);
+      }
+    }
+  }
+}
+
+/**
+ * Where a token was registered, so tokens of other apps can be told apart
+ */
+function tokenCheck(n: number, scope: Construct) {
+  const hash = crypto.createHash('md5').update(`${scope.constructPath.join('/')}#${n}`).digest();
+  return hash.readUInt32BE(0) & DOUBLE_TOKEN_CHECK_BITS;
+}
+
+function checkString(check: number) {
+  return check.toString(16).padStart(6, '0');
+}
+
+function tokenString(ref: TokenReference) {
+  return `\${Token${ref.n}@${checkString(ref.check)}}`;
+}
+
+export function tokenToString(x: any, scope: Construct, producer?: Construct): string {
   if (typeof x === 'string') {
     return x;
   }
 
-  const token = `\${Token${ctr++}}`;
-  TOKENS.set(token, x);
-  return token;
+  return tokenString(TokenRegistry.of(scope).register(x, scope, producer));
+}
+
+export function tokenToNumber(x: any, scope: Construct, producer?: Construct): number {
+  if (typeof x === 'number') {
+    return x;
+  }
+
+  const { n, check } = TokenRegistry.of(scope).register(x, scope, producer);
+  const view = new DataView(new ArrayBuffer(8));
+  view.setUint32(0, DOUBLE_TOKEN_MARKER | check);
+  view.setUint32(4, n);
+  return view.getFloat64(0);
 }
 
-export function deepResolve(x: any): any {
+export function tokenToList(x: any, scope: Construct, producer?: Construct): string[] {
+  if (Array.isArray(x)) {
+    return x;
+  }
+
+  const { n, check } = TokenRegistry.of(scope).register(x, scope, producer);
+  return [`#{Token${n}@${checkString(check)}}`];
+}
+
+interface TokenReference {
+  readonly n: number;
+  readonly check: number;
+}
+
+function numberTokenReference(x: number): TokenReference | undefined {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, x);
+  const marker = view.getUint32(0);
+  return (marker & ~DOUBLE_TOKEN_CHECK_BITS) >>> 0 === DOUBLE_TOKEN_MARKER
+    ? { n: view.getUint32(4), check: marker & DOUBLE_TOKEN_CHECK_BITS }
+    : undefined;
+}
+
+function listTokenReference(x: any[]): TokenReference | undefined {
+  const m = x.length === 1 && typeof x[0] === 'string' ? LIST_TOKEN.exec(x[0]) : null;
+  return m ? { n: parseInt(m[1], 10), check: parseInt(m[2], 16) } : undefined;
+}
+
+/**
+ * Whether the given value is or contains an unresolved token
+ */
+export function isToken(x: any): boolean {
   if (typeof x === 'string') {
-    return fromString(x);
+    return new RegExp(STRING_TOKEN.source).test(x);
+  }
+  if (typeof x === 'number') {
+    return numberTokenReference(x) !== undefined;
   }
   if (Array.isArray(x)) {
-    return x.map(deepResolve);
+    return listTokenReference(x) !== undefined;
+  }
+  return false;
+}
+
+/**
+ * Split a string into literal parts and tokens
+ */
+function fragments(x: string, registry: TokenRegistry): Array<string | TokenRecord> {
+  const ret = new Array<string | TokenRecord>();
+  const re = new RegExp(STRING_TOKEN.source, 'g');
+  let last = 0;
+  let m;
+  while ((m = re.exec(x)) !== null) {
+    if (m.index > last) {
+      ret.push(x.substring(last, m.index));
+    }
+    ret.push(registry.lookup({ n: parseInt(m[1], 10), check: parseInt(m[2], 16) }));
+    last = re.lastIndex;
+  }
+  if (last < x.length) {
+    ret.push(x.substring(last));
+  }
+  return ret;
+}
+
+/**
+ * Resolve all tokens in the given structure against the tokens of the scope's app
+ *
+ * References to constructs that render into a different template than the
+ * scope are passed to the scope's template root to turn into cross-template
+ * references.
+ */
+export function deepResolve(x: any, scope: Construct): any {
+  return resolveWith(x, { registry: TokenRegistry.of(scope), template: scope.templateRoot });
+}
+
+interface ResolveContext {
+  readonly registry: TokenRegistry;
+
+  /**
+   * The template the value renders into
+   */
+  readonly template: Construct;
+}
+
+function resolveWith(x: any, context: ResolveContext): any {
+  const registry = context.registry;
+  if (typeof x === 'string') {
+    return resolveString(x, context);
+  }
+  if (typeof x === 'number') {
+    const ref = numberTokenReference(x);
+    return ref !== undefined ? resolveRecord(registry.lookup(ref), context) : x;
+  }
+  if (Array.isArray(x)) {
+    const ref = listTokenReference(x);
+    return ref !== undefined
+      ? resolveRecord(registry.lookup(ref), context)
+      : x.map(e => resolveWith(e, context));
+  }
+  if (isResolvable(x)) {
+    return resolveWith(x.resolve(), context);
   }
   if (x && typeof x === 'object') {
     return Object.fromEntries(Object.entries(x).map(
-      ([k, v]) => [k, deepResolve(v)]));
+      ([k, v]) => [k, resolveWith(v, context)]));
   }
   return x;
 }
 
-export function fromString(x: string): any {
-  const found = TOKENS.get(x);
-  return found !== undefined ? found : x;
-}
\ No newline at end of file
+function resolveRecord(record: TokenRecord, context: ResolveContext): any {
+  const value = resolveWith(record.value, context);
+  const producerTemplate = record.producer?.templateRoot;
+  return record.producer && producerTemplate !== context.template
+    ? context.template.resolveReference(record.producer, value)
+    : value;
+}
+
+/**
+ * Resolve a string that may have tokens embedded in it
+ *
+ * A string that is exactly one token resolves to that token's value. Strings
+ * with tokens embedded in literal text render to `Fn::Sub` if every token is a
+ * `Ref` or `Fn::GetAtt`, and to `Fn::Join` otherwise.
+ */
+function resolveString(x: string, context: ResolveContext): any {
+  const parts = fragments(x, context.registry);
+  if (parts.length === 1 && typeof parts[0] !== 'string') {
+    return resolveRecord(parts[0], context);
+  }
+  if (parts.every(p => typeof p === 'string')) {
+    return x;
+  }
+
+  const resolved = parts.map(p => typeof p === 'string' ? p : resolveRecord(p, context));
+  if (resolved.every(r => typeof r === 'string')) {
+    return resolved.join('');
+  }
+
+  const sub = subTemplate(resolved, true);
+  if (Object.keys(sub.variables).length === 0) {
+    return { 'Fn::Sub': sub.template };
+  }
+
+  const joined = new Array<any>();
+  for (const r of resolved) {
+    if (typeof r === 'string' && typeof joined[joined.length - 1] === 'string') {
+      joined[joined.length - 1] += r;
+    } else {
+      joined.push(r);
+    }
+  }
+  return { 'Fn::Join': ['', joined] };
+}
+
+/**
+ * Turn resolved string parts into an `Fn::Sub` template
+ *
+ * `Ref`s and `Fn::GetAtt`s become `${Id}` and `${Id.Attr}`; any other
+ * intrinsic becomes a variable.
+ */
+function subTemplate(parts: any[], escapeLiterals: boolean): { template: string, variables: Record<string, any> } {
+  let template = '';
+  const variables: Record<string, any> = {};
+  for (const part of parts) {
+    if (typeof part === 'string') {
+      template += escapeLiterals ? part.replace(/\$\{/g, '${!') : part;
+    } else if (part && typeof part.Ref === 'string') {
+      template += `\${${part.Ref}}`;
+    } else if (part && Array.isArray(part['Fn::GetAtt'])) {
+      template += `\${${part['Fn::GetAtt'].join('.')}}`;
+    } else {
+      const name = `Var${Object.keys(variables).length + 1}`;
+      variables[name] = part;
+      template += `\${${name}}`;
+    }
+  }
+  return { template, variables };
+}
+
+/**
+ * Resolve a template string for `Fn::Sub`, turning the tokens in it into references
+ */
+export function resolveSubTemplate(template: string, scope: Construct) {
+  const context = { registry: TokenRegistry.of(scope), template: scope.templateRoot };
+  return subTemplate(fragments(template, context.registry).map(p => typeof p === 'string' ? p : resolveRecord(p, context)), false);
+}
+
+/**
+ * Find all tokens referenced anywhere in the given structure
+ *
+ * Includes the tokens referenced by the values of the tokens found, and by
+ * the fields of resolvables.
+ */
+export function findTokens(x: any, scope: Construct): TokenRecord[] {
+  return findTokensWith(x, TokenRegistry.of(scope));
+}
+
+function findTokensWith(x: any, registry: TokenRegistry): TokenRecord[] {
+  const direct = new Array<TokenRecord>();
+  if (typeof x === 'string') {
+    direct.push(...fragments(x, registry).filter((p): p is TokenRecord => typeof p !== 'string'));
+  } else if (typeof x === 'number') {
+    const ref = numberTokenReference(x);
+    if (ref !== undefined) { direct.push(registry.lookup(ref)); }
+  } else if (Array.isArray(x)) {
+    const ref = listTokenReference(x);
+    if (ref === undefined) { return x.flatMap(e => findTokensWith(e, registry)); }
+    direct.push(registry.lookup(ref));
+  } else if (isResolvable(x)) {
+    return [x.resolve(), ...Object.values(x)].flatMap(e => findTokensWith(e, registry));
+  } else if (x && typeof x === 'object') {
+    return Object.values(x).flatMap(e => findTokensWith(e, registry));
+  }
+
+  return direct.flatMap(t => [t, ...findTokensWith(t.value, registry)]);
+}
@@ -0,0 +1,161 @@
+import { Construct, ILinkable, LinkEvent } from "./construct";
+import { Resource } from "./core";
+import { deepResolve } from "./tokens";
+
+//////////////////////////////////////////////////////////////////////
+// MANIFEST
+
+/**
+ * The contents of `tree.json`
+ */
+export interface TreeManifest {
+  readonly version: string;
+  readonly tree: ConstructManifest;
+}
+
+export interface ConstructManifest {
+  readonly id: string;
+  readonly path: string;
+  readonly class: string;
+  readonly linksAs?: string[];
+  readonly linksTo?: string[];
+
+  /**
+   * The rendered properties, for resources
+   */
+  readonly properties?: Record<string, any>;
+
+  /**
+   * The link events this construct took part in, as the linkable or the target
+   */
+  readonly links?: LinkManifest[];
+  readonly children?: Record<string, ConstructManifest>;
+}
+
+export interface LinkManifest {
+  readonly kind: LinkEvent['kind'];
+  readonly linkable: string;
+  readonly target: string;
+
+  /**
+   * The construct `link()` was called on, and where
+   */
+  readonly linkRoot?: string;
+  readonly linkedAt?: string;
+}
+
+/**
+ * Describe every construct in the tree, and the links between them
+ */
+export function treeManifest(root: Construct): TreeManifest {
+  const events = Array.from(root.depthFirst()).flatMap(x => x.linkEvents);
+  return { version: 'tree-0.1', tree: constructManifest(root, events) };
+}
+
+function constructManifest(x: Construct, events: LinkEvent[]): ConstructManifest {
+  const links = events.filter(e => e.target === x || e.linkable === x).map(linkManifest);
+  const children = Object.values(x.children);
+  return {
+    id: x.id ?? '',
+    path: pathOf(x),
+    class: x.constructor.name,
+    ...x.linksAs.length > 0 ? { linksAs: x.linksAs } : {},
+    ...x.linksTo.length > 0 ? { linksTo: x.linksTo } : {},
+    ...x instanceof Resource ? { properties: deepResolve(Object.values(x.render())[0].Properties, x) } : {},
+    ...links.length > 0 ? { links } : {},
+    ...children.length > 0 ? { children: Object.fromEntries(children.map(c => [c.id, constructManifest(c, events)])) } : {},
+  };
+}
+
+function linkManifest(e: LinkEvent): LinkManifest {
+  return {
+    kind: e.kind,
+    linkable: nameOf(e.linkable),
+    target: pathOf(e.target),
+    ...e.root ? { linkRoot: pathOf(e.root) } : {},
+    ...e.linkCall?.userFrame ? { linkedAt: e.linkCall.userFrame } : {},
+  };
+}
+
+//////////////////////////////////////////////////////////////////////
+// DIAGRAMS
+
+/**
+ * Render the construct tree and the links between constructs as a Graphviz DOT graph
+ *
+ * Solid edges go from a construct to its children, dashed edges from a
+ * linkable to the construct it applied to. Linkables that aren't constructs
+ * are drawn as notes.
+ */
+export function toDot(root: Construct): string {
+  const graph = linkGraph(root);
+  const label = (x: string) => JSON.stringify(x);
+  return [
+    'digraph constructs {',
+    '  node [shape=box];',
+    ...graph.nodes.map(n => `  ${n.key} [label=${label(n.label)}${n.construct ? '' : ', shape=note'}];`),
+    ...graph.children.map(([from, to]) => `  ${from} -> ${to};`),
+    ...graph.links.map(l => `  ${l.from} -> ${l.to} [style=dashed, label=${label(l.kind)}];`),
+    '}',
+  ].join('\n');
+}
+
+/**
+ * Render the construct tree and the links between constructs as a Mermaid flowchart
+ */
+export function toMermaid(root: Construct): string {
+  const graph = linkGraph(root);
+  const label = (x: string) => `"${x.replace(/"/g, '#quot;').replace(/\n/g, '<br/>')}"`;
+  return [
+    'graph TD',
+    ...graph.nodes.map(n => n.construct ? `  ${n.key}[${label(n.label)}]` : `  ${n.key}>${label(n.label)}]`),
+    ...graph.children.map(([from, to]) => `  ${from} --> ${to}`),
+    ...graph.links.map(l => `  ${l.from} -.->|${l.kind}| ${l.to}`),
+  ].join('\n');
+}
+
+interface GraphNode {
+  readonly key: string;
+  readonly label: string;
+  readonly construct: boolean;
+}
+
+interface GraphLink {
+  readonly from: string;
+  readonly to: string;
+  readonly kind: LinkEvent['kind'];
+}
+
+function linkGraph(root: Construct) {
+  const constructs = Array.from(root.depthFirst());
+  const keys = new Map<ILinkable, string>(constructs.map((x, i) => [x, `n${i}`]));
+  const nodes: GraphNode[] = constructs.map(x => ({
+    key: keys.get(x)!,
+    label: x.id ? `${x.id}\n${x.constructor.name}` : x.constructor.name,
+    construct: true,
+  }));
+
+  const links = new Array<GraphLink>();
+  for (const e of constructs.flatMap(x => x.linkEvents)) {
+    if (!keys.has(e.linkable)) {
+      const key = `m${keys.size - constructs.length}`;
+      keys.set(e.linkable, key);
+      nodes.push({ key, label: nameOf(e.linkable), construct: false });
+    }
+    const link = { from: keys.get(e.linkable)!, to: keys.get(e.target)!, kind: e.kind };
+    if (!links.some(l => l.from === link.from && l.to === link.to && l.kind === link.kind)) {
+      links.push(link);
+    }
+  }
+
+  const children = constructs.flatMap(x => Object.values(x.children).map(c => [keys.get(x)!, keys.get(c)!]));
+  return { nodes, children, links };
+}
+
+function pathOf(x: Construct) {
+  return x.constructPath.join('/');
+}
+
+function nameOf(x: ILinkable) {
+  return x instanceof Construct ? pathOf(x) : `${x}`;
+}
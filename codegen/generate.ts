@@ -0,0 +1,688 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Code generator for L1 resource classes
+ *
+ * Reads a (local copy of the) CloudFormation resource specification, with
+ * `overlay.json` applied on top for the things upstream doesn't say (element
+ * keys, allowed values, references), and generates a `Resource` subclass for
+ * every resource type in it, with:
+ *
+ * - A props interface, so properties can be passed at construction time, and
+ *   a `PROPERTIES` table that declares every property and maps its props value
+ *   to the factories below, so props behave exactly like modifiers.
+ * - A static tweak factory per property: `ScalarTweak`s for single values and
+ *   `CollectionTweak`s for lists. List factories are named after a single
+ *   element (`Tags` -> `Tag`). Single value factories also have `.default()`
+ *   and `.override()` variants.
+ * - `Clear<List>` and, for lists whose elements have a key, `Remove<Element>`
+ *   factories. Lists of primitives are keyed by the values themselves.
+ * - A `LensTweak` factory per nested property
+ *   (`LoggingConfiguration.DestinationBucketName` ->
+ *   `LoggingConfigurationDestinationBucketName`).
+ * - Getters for the resource's `Fn::GetAtt` attributes.
+ * - A reference declaration per property that holds references to other
+ *   resources, so linking to (or nesting in) such a resource fills it.
+ * - A schema per property, so values are validated when they are set and
+ *   required properties are checked at render time.
+ *
+ * It also emits a table of the properties that replace the resource when they
+ * change, for template diffs.
+ *
+ * Classes are named `Cfn<Service><Type>`; hand-written classes in `stdlib.ts` extend
+ * them where they need more than the specification offers.
+ *
+ * Run with `npm run codegen`.
+ */
+
+export interface Specification {
+  readonly PropertyTypes: Record<string, PropertyTypeSpec>;
+  readonly ResourceTypes: Record<string, ResourceTypeSpec>;
+}
+
+export interface ResourceTypeSpec {
+  readonly Documentation?: string;
+  readonly Attributes?: Record<string, AttributeSpec>;
+  readonly Properties: Record<string, PropertySpec>;
+}
+
+export interface PropertyTypeSpec {
+  readonly Documentation?: string;
+  readonly Properties: Record<string, PropertySpec>;
+
+  /**
+   * The property that identifies an element in a list of this type
+   *
+   * Not part of the upstream specification, added by the overlay.
+   */
+  readonly Key?: string;
+}
+
+export interface PropertySpec {
+  readonly Documentation?: string;
+  readonly PrimitiveType?: string;
+  readonly Type?: string;
+  readonly PrimitiveItemType?: string;
+  readonly ItemType?: string;
+  readonly Required?: boolean;
+  readonly UpdateType?: string;
+
+  /**
+   * The values a string property can take
+   *
+   * Not part of the upstream specification, added by the overlay.
+   */
+  readonly AllowedValues?: string[];
+  readonly DuplicatesAllowed?: boolean;
+
+  /**
+   * The resource whose `Ref` (or `Fn::GetAtt` of `Attribute`) the property holds
+   *
+   * Not part of the upstream specification, added by the overlay.
+   */
+  readonly References?: { readonly ResourceType: string; readonly Attribute?: string };
+}
+
+export interface AttributeSpec {
+  readonly PrimitiveType?: string;
+  readonly Type?: string;
+  readonly PrimitiveItemType?: string;
+}
+
+export const SPEC_FILE = path.join(__dirname, 'spec.json');
+export const OVERLAY_FILE = path.join(__dirname, 'overlay.json');
+export const OUTPUT_FILE = path.join(__dirname, '..', 'cdkv3', 'resources.generated.ts');
+
+/**
+ * Load the upstream specification with our overlay applied on top
+ */
+export function loadSpec(file = SPEC_FILE, overlayFile = OVERLAY_FILE): Specification {
+  const spec = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  applyOverlay(spec, JSON.parse(fs.readFileSync(overlayFile, 'utf-8')));
+  return spec;
+}
+
+/**
+ * Add the fields of the overlay to the types and properties of the specification
+ *
+ * The overlay can only add to types and properties that exist, so it can't
+ * silently go stale when the specification changes.
+ */
+function applyOverlay(spec: Specification, overlay: Overlay) {
+  for (const section of ['PropertyTypes', 'ResourceTypes'] as const) {
+    for (const [typeName, { Properties: properties, ...fields }] of Object.entries(overlay[section] ?? {})) {
+      const type = spec[section][typeName];
+      if (!type) {
+        throw new Error(`Overlay refers to ${typeName}, which is not in the specification`);
+      }
+      Object.assign(type, fields);
+      for (const [name, propFields] of Object.entries(properties ?? {})) {
+        if (!type.Properties[name]) {
+          throw new Error(`Overlay refers to ${typeName}.${name}, which is not in the specification`);
+        }
+        Object.assign(type.Properties[name], propFields);
+      }
+    }
+  }
+}
+
+interface Overlay {
+  readonly PropertyTypes?: Record<string, OverlayType>;
+  readonly ResourceTypes?: Record<string, OverlayType>;
+}
+
+interface OverlayType {
+  readonly Key?: string;
+  readonly Properties?: Record<string, Pick<PropertySpec, 'AllowedValues' | 'References'>>;
+}
+
+/**
+ * The name of the class for a resource type
+ *
+ * Includes the service, as type names repeat across services
+ * (`AWS::IAM::Policy` -> `CfnIAMPolicy`, `AWS::S3::Bucket` -> `CfnS3Bucket`).
+ */
+export function resourceClassName(resourceType: string) {
+  const [_, service, type] = resourceType.split('::');
+  return `Cfn${service}${type}`;
+}
+
+export function generate(spec: Specification): string {
+  const code = new CodeWriter();
+  code.line('// Generated by codegen/generate.ts from codegen/spec.json and codegen/overlay.json. Do not edit.');
+  code.line('import { Construct, ILinkable } from "./construct";');
+  code.line('import { ClearTweak, CollectionProperty, CollectionTweak, KeyedCollectionProperty, LensTweak, prioritized, PropertyTable, RemoveTweak, Resource, ScalarProperty, ScalarTweak } from "./core";');
+  code.line('import { Fn } from "./fn";');
+  code.line('import { Lens } from "./lens";');
+  code.line('import { Schema } from "./schema";');
+
+  code.banner('PROPERTY SCHEMAS');
+  const emitted = new Set<string>();
+  for (const name of Object.keys(spec.PropertyTypes)) {
+    emitSchema(code, spec, name, emitted);
+  }
+
+  const shared = Object.keys(spec.PropertyTypes).filter(name => !name.includes('.'));
+  if (shared.length > 0) {
+    code.banner('SHARED PROPERTY TYPES');
+    for (const name of shared) {
+      const ctx = new TypeContext(spec, undefined);
+      emitPropertyType(code, ctx, name, `Cfn${name}`, spec.PropertyTypes[name]);
+    }
+  }
+
+  const classNames = new Set<string>();
+  for (const [resourceType, resourceSpec] of Object.entries(spec.ResourceTypes)) {
+    const ctx = new TypeContext(spec, resourceType);
+    if (classNames.has(ctx.className)) {
+      throw new Error(`Duplicate class name ${ctx.className} for ${resourceType}`);
+    }
+    classNames.add(ctx.className);
+    emitResource(code, ctx, resourceSpec);
+  }
+
+  emitUpdateTypes(code, spec);
+
+  return code.toString();
+}
+
+//////////////////////////////////////////////////////////////////////
+// UPDATE TYPES
+
+/**
+ * Emit the properties of every resource type that can't always be updated in place
+ *
+ * Properties missing from the table are `Mutable`.
+ */
+function emitUpdateTypes(code: CodeWriter, spec: Specification) {
+  code.banner('UPDATE TYPES');
+  code.docs('Properties that require (`Immutable`) or may require (`Conditional`) replacing the resource when they change');
+  code.open(`export const PROPERTY_UPDATE_TYPES: Record<string, Record<string, 'Immutable' | 'Conditional'>> = {`);
+  for (const [resourceType, resourceSpec] of Object.entries(spec.ResourceTypes)) {
+    const replacing = Object.entries(resourceSpec.Properties)
+      .filter(([_, prop]) => prop.UpdateType === 'Immutable' || prop.UpdateType === 'Conditional');
+    if (replacing.length === 0) { continue; }
+    code.open(`${JSON.stringify(resourceType)}: {`);
+    for (const [name, prop] of replacing) {
+      code.line(`${name}: ${JSON.stringify(prop.UpdateType)},`);
+    }
+    code.close('},');
+  }
+  code.close('};');
+}
+
+//////////////////////////////////////////////////////////////////////
+// RESOURCES
+
+function emitResource(code: CodeWriter, ctx: TypeContext, spec: ResourceTypeSpec) {
+  const { resourceType, className } = ctx;
+  const properties = Object.entries(spec.Properties);
+
+  code.banner(resourceType!.toUpperCase());
+
+  code.open(`export interface ${className}Props {`);
+  for (const [name, prop] of properties) {
+    code.docs(prop.Documentation);
+    code.line(`readonly ${camelCase(name)}?: ${ctx.tsType(prop)};`);
+  }
+  code.close('}');
+  code.line();
+
+  code.docs(`\`${resourceType}\``, spec.Documentation);
+  code.open(`export class ${className} extends Resource {`);
+
+  const factories = new FactoryNames(className);
+  for (const [name, prop] of properties) {
+    emitPropertyFactory(code, ctx, factories, name, prop);
+  }
+  for (const [name, prop] of properties) {
+    const nested = ctx.nestedType(prop);
+    if (nested) {
+      emitLensFactories(code, ctx, factories, name, [], nested);
+    }
+  }
+
+  code.docs('The properties of the resource, and the factories that apply their props values');
+  code.open(`public static readonly PROPERTIES: PropertyTable<${className}Props> = {`);
+  for (const [name, prop] of properties) {
+    const options = [
+      `schema: ${ctx.schemaExpr(prop.Type === 'List' ? ctx.itemSpec(prop) : prop)}`,
+      ...prop.Required ? ['required: true'] : [],
+    ];
+    const key = ctx.elementKey(prop);
+    if (key?.field) { options.push(`key: ${JSON.stringify(key.field)}`); }
+    if (isTag(prop)) { options.push('sorted: true'); }
+
+    const cls = prop.Type !== 'List' ? 'ScalarProperty' : key ? 'KeyedCollectionProperty' : 'CollectionProperty';
+    code.open(`${camelCase(name)}: {`);
+    code.line(`name: ${JSON.stringify(name)},`);
+    code.line(`create: () => new ${cls}(${cls === 'ScalarProperty' ? 'undefined, ' : ''}{ ${options.join(', ')} }),`);
+    code.line(prop.Type === 'List'
+      ? `fromProps: (xs) => xs.map(x => ${className}.${factories.listFactoryCall(name, prop, 'x')}),`
+      : `fromProps: (x) => ${className}.${name}(x),`);
+    if (prop.References) {
+      const { ResourceType, Attribute } = prop.References;
+      code.line(`references: { resourceType: ${JSON.stringify(ResourceType)}${Attribute ? `, attribute: ${JSON.stringify(Attribute)}` : ''} },`);
+    }
+    code.close('},');
+  }
+  code.close('};');
+  code.line();
+
+  code.open(`constructor(scope: Construct, id: string, props?: ${className}Props, linkables?: ILinkable[]) {`);
+  code.line(`super(scope, id, ${JSON.stringify(resourceType)});`);
+  code.line();
+  code.line(`this.makeLinkableAs(${JSON.stringify(resourceType)});`);
+  code.line(`this.declareProperties(${className}.PROPERTIES, props, linkables);`);
+  code.close('}');
+
+  for (const [name, attr] of Object.entries(spec.Attributes ?? {})) {
+    code.line();
+    code.open(`public get ${attributeGetterName(name)}() {`);
+    code.line(attr.Type === 'List'
+      ? `return Fn.getAttList(this, ${JSON.stringify(name)});`
+      : `return this.getAtt(${JSON.stringify(name)});`);
+    code.close('}');
+  }
+  code.close('}');
+
+  const ownTypes = Object.keys(ctx.spec.PropertyTypes).filter(t => t.startsWith(`${resourceType}.`));
+  if (ownTypes.length > 0) {
+    code.line();
+    code.open(`export namespace ${className} {`);
+    ownTypes.forEach((typeName, i) => {
+      if (i > 0) { code.line(); }
+      emitPropertyTypeInterface(code, ctx, typeName.split('.')[1], ctx.spec.PropertyTypes[typeName]);
+    });
+    code.close('}');
+
+    for (const typeName of ownTypes) {
+      code.line();
+      emitPropertyTypeRenderer(code, ctx, `${className}.${typeName.split('.')[1]}`, ctx.spec.PropertyTypes[typeName]);
+    }
+  }
+}
+
+function emitPropertyFactory(code: CodeWriter, ctx: TypeContext, factories: FactoryNames, name: string, prop: PropertySpec) {
+  const resourceType = JSON.stringify(ctx.resourceType);
+
+  if (prop.Type === 'List') {
+    const factory = factories.claim(singular(name));
+    const item = ctx.itemSpec(prop);
+    if (isTag(prop)) {
+      code.open(`public static ${factory}(key: string, value: string) {`);
+      code.line(`return new CollectionTweak(${resourceType}, ${JSON.stringify(name)}, ${ctx.renderExpr(item, '{ key, value }')});`);
+    } else {
+      code.open(`public static ${factory}(value: ${ctx.tsType(item)}) {`);
+      code.line(`return new CollectionTweak(${resourceType}, ${JSON.stringify(name)}, ${ctx.renderExpr(item, 'value')});`);
+    }
+    code.close('}');
+    code.line();
+
+    const key = ctx.elementKey(prop);
+    if (key) {
+      code.open(`public static ${factories.claim(`Remove${singular(name)}`)}(${key.field ? camelCase(key.field) : 'value'}: ${key.type}) {`);
+      code.line(`return new RemoveTweak(${resourceType}, ${JSON.stringify(name)}, ${key.field ? camelCase(key.field) : 'value'});`);
+      code.close('}');
+      code.line();
+    }
+
+    code.open(`public static ${factories.claim(`Clear${name}`)}() {`);
+    code.line(`return new ClearTweak(${resourceType}, ${JSON.stringify(name)});`);
+    code.close('}');
+    code.line();
+    return;
+  }
+
+  code.line(`public static readonly ${factories.claim(name)} = prioritized((priority) => (value: ${ctx.tsType(prop)}) =>`);
+  code.line(`  new ScalarTweak(${resourceType}, ${JSON.stringify(name)}, ${ctx.renderExpr(prop, 'value')}, priority));`);
+  code.line();
+}
+
+/**
+ * Emit a LensTweak factory for every property nested in a property
+ */
+function emitLensFactories(code: CodeWriter, ctx: TypeContext, factories: FactoryNames, property: string, lensPath: string[], typeSpec: PropertyTypeSpec) {
+  const resourceType = JSON.stringify(ctx.resourceType);
+  const descend = lensPath.map(p => `.descend(${JSON.stringify(p)})`).join('');
+
+  for (const [name, prop] of Object.entries(typeSpec.Properties)) {
+    const prefix = [property, ...lensPath].join('');
+    const lens = (op: string) => `new LensTweak(${resourceType}, ${JSON.stringify(property)}, new Lens()${descend}${op})`;
+
+    if (prop.Type === 'List') {
+      const item = ctx.itemSpec(prop);
+      code.open(`public static ${factories.claim(prefix + singular(name))}(value: ${ctx.tsType(item)}) {`);
+      code.line(`return ${lens(item.PrimitiveType
+        ? `.descendList(${JSON.stringify(name)}).append(value)`
+        : `.descendList(${JSON.stringify(name)}).addElement(${ctx.renderExpr(item, 'value')})`)};`);
+    } else {
+      code.open(`public static ${factories.claim(prefix + name)}(value: ${ctx.tsType(prop)}) {`);
+      code.line(`return ${lens(`.set(${JSON.stringify(name)}, ${ctx.renderExpr(prop, 'value')})`)};`);
+    }
+    code.close('}');
+    code.line();
+
+    const nested = ctx.nestedType(prop);
+    if (nested) {
+      emitLensFactories(code, ctx, factories, property, [...lensPath, name], nested);
+    }
+  }
+}
+
+//////////////////////////////////////////////////////////////////////
+// PROPERTY TYPES
+
+/**
+ * Emit the schema of a property type, after the schemas it refers to
+ */
+function emitSchema(code: CodeWriter, spec: Specification, specName: string, emitted: Set<string>, visiting = new Set<string>()) {
+  if (emitted.has(specName)) { return; }
+  if (visiting.has(specName)) {
+    throw new Error(`Property type ${specName} refers to itself`);
+  }
+  visiting.add(specName);
+
+  const ctx = new TypeContext(spec, specName.includes('.') ? specName.split('.')[0] : undefined);
+  const properties = Object.entries(spec.PropertyTypes[specName].Properties);
+  for (const [_, prop] of properties) {
+    for (const referenced of ctx.referencedTypes(prop)) {
+      emitSchema(code, spec, referenced, emitted, visiting);
+    }
+  }
+
+  const required = properties.filter(([_, prop]) => prop.Required).map(([name]) => JSON.stringify(name));
+  code.open(`const ${schemaName(ctx.qualifiedName(specName.split('.').pop()!))} = Schema.object({`);
+  for (const [name, prop] of properties) {
+    code.line(`${name}: ${ctx.schemaExpr(prop)},`);
+  }
+  code.close(required.length > 0 ? `}, [${required.join(', ')}]);` : '});');
+  code.line();
+  emitted.add(specName);
+}
+
+function emitPropertyType(code: CodeWriter, ctx: TypeContext, name: string, qualifiedName: string, spec: PropertyTypeSpec) {
+  emitPropertyTypeInterface(code, ctx, qualifiedName, spec, name);
+  code.line();
+  emitPropertyTypeRenderer(code, ctx, qualifiedName, spec);
+}
+
+function emitPropertyTypeInterface(code: CodeWriter, ctx: TypeContext, name: string, spec: PropertyTypeSpec, specName = name) {
+  code.docs(`\`${ctx.resourceType ? `${ctx.resourceType}.` : ''}${specName}\``, spec.Documentation);
+  code.open(`export interface ${name} {`);
+  for (const [propName, prop] of Object.entries(spec.Properties)) {
+    code.line(`readonly ${camelCase(propName)}${prop.Required ? '' : '?'}: ${ctx.tsType(prop)};`);
+  }
+  code.close('}');
+}
+
+function emitPropertyTypeRenderer(code: CodeWriter, ctx: TypeContext, qualifiedName: string, spec: PropertyTypeSpec) {
+  code.open(`function ${rendererName(qualifiedName)}(x: ${qualifiedName}): any {`);
+  code.open('return {');
+  for (const [propName, prop] of Object.entries(spec.Properties)) {
+    const field = `x.${camelCase(propName)}`;
+    const rendered = ctx.renderExpr(prop, field);
+    code.line(`${propName}: ${rendered === field ? field : `${field} !== undefined ? ${rendered} : undefined`},`);
+  }
+  code.close('};');
+  code.close('}');
+}
+
+//////////////////////////////////////////////////////////////////////
+// TYPES
+
+/**
+ * Type lookups relative to a resource type
+ */
+class TypeContext {
+  public readonly className: string;
+
+  constructor(public readonly spec: Specification, public readonly resourceType: string | undefined) {
+    this.className = resourceType ? resourceClassName(resourceType) : '';
+  }
+
+  public tsType(prop: PropertySpec): string {
+    if (prop.AllowedValues) {
+      return prop.AllowedValues.map(v => JSON.stringify(v)).join(' | ');
+    }
+    if (prop.PrimitiveType) {
+      return primitiveType(prop.PrimitiveType);
+    }
+    if (prop.Type === 'List') {
+      return `${this.tsType(this.itemSpec(prop))}[]`;
+    }
+    if (prop.Type === 'Map') {
+      return `Record<string, ${this.tsType(this.itemSpec(prop))}>`;
+    }
+    return this.qualifiedName(prop.Type!);
+  }
+
+  /**
+   * The expression to turn a value of the given property into its CloudFormation form
+   */
+  public renderExpr(prop: PropertySpec, expr: string): string {
+    if (prop.PrimitiveType) {
+      return expr;
+    }
+    if (prop.Type === 'List') {
+      const item = this.itemSpec(prop);
+      return item.PrimitiveType ? expr : `${expr}.map(${rendererName(this.qualifiedName(item.Type!))})`;
+    }
+    if (prop.Type === 'Map') {
+      const item = this.itemSpec(prop);
+      return item.PrimitiveType ? expr : `Object.fromEntries(Object.entries(${expr}).map(([k, v]) => [k, ${rendererName(this.qualifiedName(item.Type!))}(v)]))`;
+    }
+    return `${rendererName(this.qualifiedName(prop.Type!))}(${expr})`;
+  }
+
+  public schemaExpr(prop: PropertySpec): string {
+    if (prop.AllowedValues) {
+      return `Schema.enum(${prop.AllowedValues.map(v => JSON.stringify(v)).join(', ')})`;
+    }
+    if (prop.PrimitiveType) {
+      return `Schema.${primitiveSchema(prop.PrimitiveType)}()`;
+    }
+    if (prop.Type === 'List') {
+      return `Schema.list(${this.schemaExpr(this.itemSpec(prop))})`;
+    }
+    if (prop.Type === 'Map') {
+      return `Schema.map(${this.schemaExpr(this.itemSpec(prop))})`;
+    }
+    return schemaName(this.qualifiedName(prop.Type!));
+  }
+
+  /**
+   * The specification names of the property types a property refers to
+   */
+  public referencedTypes(prop: PropertySpec): string[] {
+    if (prop.PrimitiveType) {
+      return [];
+    }
+    if (prop.Type === 'List' || prop.Type === 'Map') {
+      return this.referencedTypes(this.itemSpec(prop));
+    }
+    return [this.specName(prop.Type!)];
+  }
+
+  /**
+   * How the elements of a list are identified, if they are
+   *
+   * Elements of primitive type are their own key.
+   */
+  public elementKey(prop: PropertySpec): { field?: string, type: string } | undefined {
+    if (prop.Type !== 'List') {
+      return undefined;
+    }
+    const item = this.itemSpec(prop);
+    if (item.PrimitiveType) {
+      return item.PrimitiveType === 'Json' ? undefined : { type: this.tsType(item) };
+    }
+    const itemType = this.spec.PropertyTypes[this.specName(item.Type!)];
+    return itemType.Key
+      ? { field: itemType.Key, type: this.tsType(itemType.Properties[itemType.Key]) }
+      : undefined;
+  }
+
+  public itemSpec(prop: PropertySpec): PropertySpec {
+    return prop.PrimitiveItemType ? { PrimitiveType: prop.PrimitiveItemType } : { Type: prop.ItemType };
+  }
+
+  /**
+   * The property type of a property that holds a single structured value
+   */
+  public nestedType(prop: PropertySpec): PropertyTypeSpec | undefined {
+    if (prop.PrimitiveType || prop.Type === 'List' || prop.Type === 'Map') {
+      return undefined;
+    }
+    return this.spec.PropertyTypes[this.specName(prop.Type!)];
+  }
+
+  private specName(type: string) {
+    const own = `${this.resourceType}.${type}`;
+    if (this.spec.PropertyTypes[own]) { return own; }
+    if (this.spec.PropertyTypes[type]) { return type; }
+    throw new Error(`Unknown property type ${type} in ${this.resourceType}`);
+  }
+
+  public qualifiedName(type: string) {
+    return this.specName(type).includes('.') ? `${this.className}.${type}` : `Cfn${type}`;
+  }
+}
+
+function primitiveType(type: string) {
+  switch (type) {
+    case 'String':
+    case 'Timestamp':
+      return 'string';
+    case 'Integer':
+    case 'Long':
+    case 'Double':
+      return 'number';
+    case 'Boolean':
+      return 'boolean';
+    case 'Json':
+      return 'any';
+  }
+  throw new Error(`Unknown primitive type ${type}`);
+}
+
+function primitiveSchema(type: string) {
+  switch (primitiveType(type)) {
+    case 'string': return 'string';
+    case 'number': return 'number';
+    case 'boolean': return 'boolean';
+  }
+  return 'json';
+}
+
+function isTag(prop: PropertySpec) {
+  return prop.Type === 'List' && prop.ItemType === 'Tag';
+}
+
+//////////////////////////////////////////////////////////////////////
+// NAMES
+
+/**
+ * Keeps track of the static factory names on a class, so they don't clash
+ */
+class FactoryNames {
+  private readonly names = new Set<string>();
+
+  constructor(private readonly className: string) {
+  }
+
+  public claim(name: string) {
+    if (this.names.has(name)) {
+      throw new Error(`Duplicate factory ${this.className}.${name}`);
+    }
+    this.names.add(name);
+    return name;
+  }
+
+  public listFactoryCall(name: string, prop: PropertySpec, expr: string) {
+    return isTag(prop)
+      ? `${singular(name)}(${expr}.key, ${expr}.value)`
+      : `${singular(name)}(${expr})`;
+  }
+}
+
+function camelCase(name: string) {
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+export function singular(name: string) {
+  if (/ies$/.test(name)) { return name.slice(0, -3) + 'y'; }
+  if (/(ss|x|ch|sh|zz|us|ias)es$/.test(name)) { return name.slice(0, -2); }
+  if (/(ss|us|is)$/.test(name)) { return name; }
+  if (name.endsWith('s')) { return name.slice(0, -1); }
+  return name;
+}
+
+function rendererName(qualifiedName: string) {
+  return `render${qualifiedName.replace(/\./g, '')}`;
+}
+
+function schemaName(qualifiedName: string) {
+  return `${qualifiedName.replace(/\./g, '')}Schema`;
+}
+
+function attributeGetterName(name: string) {
+  return camelCase(name.replace(/\./g, ''));
+}
+
+//////////////////////////////////////////////////////////////////////
+// OUTPUT
+
+class CodeWriter {
+  private readonly lines = new Array<string>();
+  private indent = 0;
+
+  public line(text = '') {
+    this.lines.push(text ? '  '.repeat(this.indent) + text : '');
+  }
+
+  public open(text: string) {
+    this.line(text);
+    this.indent++;
+  }
+
+  public close(text: string) {
+    this.indent--;
+    this.line(text);
+  }
+
+  public banner(title: string) {
+    if (this.lines[this.lines.length - 1] !== '') {
+      this.line();
+    }
+    this.line('//////////////////////////////////////////////////////////////////////');
+    this.line(`// ${title}`);
+    this.line();
+  }
+
+  public docs(...paragraphs: Array<string | undefined>) {
+    const present = paragraphs.filter((p): p is string => p !== undefined);
+    if (present.length === 0) { return; }
+
+    const lines = present.map(p => p.startsWith('http') ? `@see ${p}` : p);
+    if (lines.length === 1) {
+      this.line(`/** ${lines[0]} */`);
+      return;
+    }
+    this.line('/**');
+    lines.forEach((l, i) => {
+      if (i > 0) { this.line(' *'); }
+      this.line(` * ${l}`);
+    });
+    this.line(' */');
+  }
+
+  public toString() {
+    return this.lines.join('\n') + '\n';
+  }
+}
+
+if (require.main === module) {
+  fs.writeFileSync(OUTPUT_FILE, generate(loadSpec()));
+}
@@ -1,5 +1,5 @@
 //#region -c demo imports
-import { Bucket, BucketPolicy, Construct, ILinkable, PolicyStatement, Resource, Root, Scope } from "./cdkv3";
+import { Bucket, BucketPolicy, Construct, ILinkable, PolicyStatement, Principal, Resource, Root, Scope, TemplateDiff } from "./cdkv3";
 //#endregion
 
 /**
@@ -42,12 +42,12 @@ function app0() {
     /**
      * Create a BucketPolicy and associate it with the bucket.
      * 
-     * The association only
-     * exists at the CloudFormation level -- right now we don't have (need) knowledge
-     * that the BucketName -> Bucket link implies a relationship.
+     * Passing `bucket` is optional here: the specification says the property
+     * refers to a Bucket, and a BucketPolicy created inside a Bucket refers to
+     * it by default (see App2).
      */
     const pol = new BucketPolicy(bucket, 'BucketPolicy', {
-      bucketName: bucket.ref,
+      bucket: bucket.ref,
     });
 
     /**
@@ -64,7 +64,7 @@ function app0() {
     new PolicyStatement({
       policyDocument: pol.policyDocument,
       actions: ['s3:GetObject'],
-      principals: ['*'],
+      principals: [Principal.anyone()],
     });
   });
 }
@@ -88,12 +88,16 @@ function app0() {
  * 
  * In the API I've currently chosen, the construct parameters look like 
  * `(scope, id, props, modifiers)`, so we do see the empty dictionary
- * argument `{}` dangling around in the argument list.
- * 
+ * argument `{}` dangling around in the argument list. Props are applied through
+ * the same modifiers, so `{ bucketName: 'a' }` next to `Bucket.BucketName('b')`
+ * is a conflict, reported as coming from `props.bucketName`.
+ *
  * Modifiers could have been classes `new Bucket.BucketName()`, `new Bucket.Tag()`, but
  * I've chosen to make them functions to cut down on syntactic noise.
  * 
- * It should be an error if a modification doesn't apply to anything.
+ * It is an error if a modification doesn't apply to anything; `link()` reports
+ * the modifier and where it was created. Pass `{ unmatched: 'warn' }` to
+ * `link()` to collect these as `warnings` on the construct instead.
  */
 function app1() {
   return Root.with((root) => {
@@ -104,7 +108,7 @@ function app1() {
 
     const pol = new BucketPolicy(bucket, 'BucketPolicy', {}, [
       // This is possible:
-      // BucketPolicy.BucketName(bucket.bucketName),
+      // BucketPolicy.Bucket(bucket.ref),
 
       // But this is preferred:
       BucketPolicy.Bucket(bucket),
@@ -113,7 +117,7 @@ function app1() {
     new PolicyStatement({
       policyDocument: pol.policyDocument,
       actions: ['s3:GetObject'],
-      principals: ['*'],
+      principals: [Principal.anyone()],
     });
   });
 }
@@ -126,11 +130,10 @@ function app1() {
  * are aware of links they can have to constructs, they can be pass as modifiers
  * to other constructs and will link up to them automatically.
  * 
- * Right now, BucketPolicy is not aware that it can link to a Bucket, so it needs
- * some help to declare a link to a Bucket and turn that into a BucketName. If it was
- * aware (either because we enhance the L1 level or we add an L2 level class with
- * that capability), we could just declare a BucketPolicy as a modifier to a Bucket
- * directly.
+ * BucketPolicy knows that it can link to a Bucket: the resource specification
+ * says its `Bucket` property references one, so linking it to a Bucket (or
+ * creating it inside one) fills in the reference. A BucketPolicy linked to a
+ * scope with several buckets in it doesn't know which one to pick, and says so.
  * 
  */
 function app2() {
@@ -143,14 +146,9 @@ function app2() {
     // Scope.FLOATING roots the BucketPolicy under the first construct it is
     // being applied to in the construct tree.
     new BucketPolicy(Scope.FLOATING, 'BucketPolicy', {}, [
-      // If BucketPolicy were aware that it could be linked to a Bucket, the
-      // following modifier would be unncessary. We need a modifier which, when
-      // applied to the BucketPolicy, makes that policy linkable to a Bucket. 
-      BucketPolicy.AutomaticBucketName(),
-
       new PolicyStatement({
         actions: ['s3:GetObject'],
-        principals: ['*'],
+        principals: [Principal.anyone()],
       }),
     ]),
   ]);
@@ -232,22 +230,28 @@ function app2() {
  * 
  * Modifications apply to all constructs in a subtree, so as long as the compound
  * resources are nested together, it will transparently apply tweaks wherever they
- * make sense. (We could also achieve the same result by combining the `Bucket`
- * and `BucketPolicy` into a parent construct, but that would change logical IDs
- * and mess with the equivalence tests at the bottom of this file.)
+ * make sense. Here the `Bucket` and `BucketPolicy` are combined under a parent
+ * construct. Wrapping would normally change logical IDs (and mess with the
+ * equivalence tests at the bottom of this file), but a construct with the id
+ * `Default` is left out of logical IDs, so the bucket keeps the ID it had
+ * before it was wrapped.
+ * 
+ * The bucket name is only a default: a caller passing `Bucket.BucketName('Other')`
+ * replaces it. Passing the same property twice at the same priority is an error,
+ * and `Bucket.BucketName.override(...)` replaces even a normal value.
  */
 
 function fancyBucket(scope: Construct, id: string, tweaks?: ILinkable[]) {
-  return new Bucket(scope, id, {}, [
-    Bucket.BucketName('MyBucket'),
+  const ret = new Construct(scope, id);
+  new Bucket(ret, 'Default', {}, [
+    Bucket.BucketName.default('MyBucket'),
     Bucket.Tag('CostCenter', '1234'),
 
-    new BucketPolicy(Scope.FLOATING, 'BucketPolicy', {}, [
-      BucketPolicy.AutomaticBucketName()
-    ]),
+    new BucketPolicy(Scope.FLOATING, 'BucketPolicy'),
 
     ...tweaks ?? [],
   ]);
+  return ret;
 }
 
 /**
@@ -260,7 +264,7 @@ function app3() {
     fancyBucket(root, 'Bucket', [
       new PolicyStatement({
         actions: ['s3:GetObject'],
-        principals: ['*'],
+        principals: [Principal.anyone()],
       }),
     ]));
 }
@@ -278,7 +282,7 @@ function app4() {
     b.link([
       new PolicyStatement({
         actions: ['s3:GetObject'],
-        principals: ['*'],
+        principals: [Principal.anyone()],
       }),
     ]);
   });
@@ -290,12 +294,13 @@ function app4() {
  * This bit of code asserts that all the examples given above are equivalent.
  */
 const apps = [app0, app1, app2, app3, app4];
-const rendered = apps.map((a) => [a.name, JSON.stringify(Resource.renderAll(a()), undefined, 2)]);
+const rendered = apps.map((a) => [a.name, Resource.renderAll(a())] as const);
 
 for (const [fn, r] of rendered) {
-  if (r !== rendered[0][1]) {
-    console.log(rendered[0][0], rendered[0][1]);
-    console.log(fn, r);
+  const diff = TemplateDiff.between(rendered[0][1], r);
+  if (!diff.isEmpty) {
+    console.log(`${fn} renders differently from ${rendered[0][0]}:`);
+    console.log(diff.toString({ color: process.stdout.isTTY }));
     process.exitCode = 1;
     break;
   }
@@ -0,0 +1,92 @@
+import { Aspect, Bucket, Construct, Output, Resource, Root, Scope, Synthesizer } from "../cdkv3";
+
+test('modifier aspects apply to every matching construct', () => {
+  const root = new Root();
+  new Bucket(root, 'One');
+  new Bucket(new Construct(root, 'Group'), 'Two');
+  root.addAspect(Aspect.modify([Bucket.Tag('Owner', 'team-x')]));
+
+  const template = Resource.renderAll(root);
+  expect(template.One.Properties.Tags).toEqual([{ Key: 'Owner', Value: 'team-x' }]);
+  expect(template.GroupTwo.Properties.Tags).toEqual([{ Key: 'Owner', Value: 'team-x' }]);
+});
+
+test('aspects can add constructs, which are visited as well', () => {
+  const root = new Root();
+  new Bucket(root, 'Data');
+
+  let logs: Bucket | undefined;
+  root.addAspect(
+    Aspect.visit((x) => {
+      if (x instanceof Bucket && x.id !== 'Logs') {
+        if (!logs) {
+          logs = new Bucket(Scope.FLOATING, 'Logs');
+          root.link([logs]);
+        }
+        x.link([Bucket.LoggingConfigurationDestinationBucketName(logs.ref)]);
+      }
+    }),
+    Aspect.modify([Bucket.Tag('Owner', 'team-x')]),
+  );
+
+  const template = Resource.renderAll(root);
+  expect(template.Data.Properties.LoggingConfiguration).toEqual({ DestinationBucketName: { Ref: 'Logs' } });
+  expect(template.Logs.Properties.Tags).toEqual([{ Key: 'Owner', Value: 'team-x' }]);
+});
+
+test('validation aspects run after mutation and report all problems', () => {
+  const root = new Root();
+  new Bucket(root, 'One');
+  new Bucket(root, 'Two', { bucketName: 'two' });
+  root.addAspect(
+    Aspect.validate((x) => x instanceof Bucket && !x.property('BucketName').value ? ['BucketName is not set'] : []),
+    Aspect.modify([Bucket.BucketName.default('default-name')]),
+  );
+
+  expect(() => Resource.renderAll(root)).not.toThrow();
+
+  const other = new Root();
+  new Bucket(other, 'One');
+  new Bucket(other, 'Two');
+  other.addAspect(Aspect.validate((x) => x instanceof Bucket && !x.property('BucketName').value ? ['BucketName is not set'] : []));
+
+  expect(() => Resource.renderAll(other)).toThrow([
+    'Validation failed:',
+    '  Bucket@One: BucketName is not set',
+    '  Bucket@Two: BucketName is not set',
+  ].join('\n'));
+});
+
+test('aspects that keep adding constructs are an error', () => {
+  const root = new Root();
+  root.addAspect(Aspect.visit((x) => { new Construct(x, 'Child'); }));
+
+  expect(() => root.seal()).toThrow(/did not converge after 10 passes, still adding: Construct@(Child\/){8}Child$/);
+});
+
+test('modifier aspects must apply to something', () => {
+  const root = new Root();
+  new Construct(root, 'Empty');
+  root.addAspect(Aspect.modify([Bucket.Tag('Owner', 'team-x')]));
+
+  expect(() => root.seal()).toThrow(/CollectionTweak.* did not apply to anything in Root@/);
+});
+
+test('aspects cannot be added after sealing', () => {
+  const root = new Root();
+  root.seal();
+
+  expect(() => root.addAspect(Aspect.visit(() => {}))).toThrow('the tree has already been sealed');
+});
+
+test('template elements added by aspects are synthesized', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+  root.addAspect(Aspect.visit((x) => {
+    if (x === bucket) {
+      new Output(root, 'BucketArn', { value: bucket.arn });
+    }
+  }));
+
+  expect(Synthesizer.synthesize(root).Outputs).toEqual({ BucketArn: { Value: { 'Fn::GetAtt': ['Bucket', 'Arn'] } } });
+});
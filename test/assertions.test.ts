@@ -0,0 +1,89 @@
+import { Bucket, BucketPolicy, Capture, Match, Root, Template } from "../cdkv3";
+
+function app() {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket', {
+    bucketName: 'my-bucket',
+    tags: [{ key: 'Team', value: 'Storage' }, { key: 'CostCenter', value: '1234' }],
+  });
+  new BucketPolicy(bucket, 'Policy', { bucket: bucket.ref });
+  new Bucket(root, 'Other');
+  return { root, bucket };
+}
+
+test('count resources', () => {
+  const template = Template.fromConstruct(app().root);
+
+  template.resourceCountIs('AWS::S3::Bucket', 2);
+  expect(() => template.resourceCountIs('AWS::S3::BucketPolicy', 2)).toThrow('Expected 2 resources of type AWS::S3::BucketPolicy, found 1');
+});
+
+test('properties match partially, and tokens match what they resolve to', () => {
+  const { root, bucket } = app();
+  const template = Template.fromConstruct(root);
+
+  template.hasResourceProperties('AWS::S3::Bucket', { BucketName: 'my-bucket' });
+  template.hasResourceProperties('AWS::S3::BucketPolicy', { Bucket: bucket.ref });
+  template.hasResourceProperties('AWS::S3::BucketPolicy', { Bucket: { Ref: 'Bucket' } });
+  template.hasResource('AWS::S3::BucketPolicy', { Properties: { Bucket: Match.anyValue() } });
+});
+
+test('matchers', () => {
+  const template = Template.fromConstruct(app().root);
+
+  template.hasResourceProperties('AWS::S3::Bucket', {
+    BucketName: Match.stringLikeRegexp('^my-'),
+    Tags: Match.arrayWith([{ Key: 'Team' }]),
+    VersioningConfiguration: Match.absent(),
+  });
+  template.hasResourceProperties('AWS::S3::Bucket', Match.objectEquals({}));
+  expect(() => template.hasResourceProperties('AWS::S3::Bucket', { Tags: Match.arrayWith([{ Key: 'Team' }, { Key: 'Owner' }]) }))
+    .toThrow('none match as expected');
+});
+
+test('capture values', () => {
+  const template = Template.fromConstruct(app().root);
+  const name = new Capture();
+  const tags = new Capture();
+
+  template.hasResourceProperties('AWS::S3::Bucket', { BucketName: name, Tags: tags });
+
+  expect(name.asString()).toEqual('my-bucket');
+  expect(tags.asArray()).toHaveLength(2);
+  expect(() => name.asNumber()).toThrow('Captured value is not a number: "my-bucket"');
+});
+
+test('values captured in elements that do not match are dropped', () => {
+  const template = Template.fromConstruct(app().root);
+  const recorded = new Array<any>();
+  const key = new class extends Capture {
+    public record(value: any) {
+      super.record(value);
+      recorded.push(value);
+    }
+  }();
+
+  template.hasResourceProperties('AWS::S3::Bucket', { Tags: Match.arrayWith([{ Key: key, Value: 'Storage' }]) });
+
+  expect(recorded).toEqual(['Team']);
+});
+
+test('failures show the closest resource and the mismatches', () => {
+  const template = Template.fromConstruct(app().root);
+
+  expect(() => template.hasResourceProperties('AWS::S3::Bucket', { BucketName: 'my-bucket', Tags: [{ Key: 'Team', Value: 'Compute' }] }))
+    .toThrow([
+      'Template has 2 resources of type AWS::S3::Bucket, but none match as expected.',
+      'The closest match is Bucket:',
+      '  {',
+      '    "BucketName": "my-bucket",',
+    ].join('\n'));
+
+  expect(() => template.hasResourceProperties('AWS::S3::Bucket', { BucketName: 'my-bucket', Tags: [{ Key: 'Team', Value: 'Compute' }] }))
+    .toThrow([
+      'with the following mismatches:',
+      '  at /Tags',
+      '  - [{ "Key": "Team", "Value": "Compute" }]',
+      '  + [{ "Key": "CostCenter", "Value": "1234" }, { "Key": "Team", "Value": "Storage" }]',
+    ].join('\n'));
+});
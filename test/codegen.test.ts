@@ -0,0 +1,76 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { generate, loadSpec, OUTPUT_FILE, resourceClassName, singular } from '../codegen/generate';
+import * as resources from '../cdkv3/resources.generated';
+import { CfnIAMRole, CfnS3Bucket, Resource, Root } from '../cdkv3';
+
+const spec = loadSpec();
+
+test('generated resources are up to date', () => {
+  expect(fs.readFileSync(OUTPUT_FILE, 'utf-8')).toEqual(generate(spec));
+});
+
+test('every resource type has a class with its properties and attributes', () => {
+  for (const [resourceType, resourceSpec] of Object.entries(spec.ResourceTypes)) {
+    const cls = (resources as any)[resourceClassName(resourceType)];
+    const resource: Resource = new cls(new Root(), 'Resource');
+
+    expect(resource.resourceType).toEqual(resourceType);
+    for (const name of Object.keys(resourceSpec.Properties)) {
+      expect(resource.property(name)).toBeDefined();
+    }
+    for (const name of Object.keys(resourceSpec.Attributes ?? {})) {
+      expect(Object.getOwnPropertyDescriptor(cls.prototype, name.charAt(0).toLowerCase() + name.slice(1))?.get).toBeDefined();
+    }
+  }
+});
+
+test('props, list factories and nested property factories', () => {
+  const root = new Root();
+  new CfnIAMRole(root, 'Role', {
+    roleName: 'MyRole',
+    assumeRolePolicyDocument: { Statement: [] },
+    policies: [{ policyName: 'Inline', policyDocument: { Statement: [] } }],
+  }, [
+    CfnIAMRole.ManagedPolicyArn('arn:aws:iam::aws:policy/ReadOnlyAccess'),
+    CfnIAMRole.Tag('CostCenter', '1234'),
+  ]);
+  new CfnS3Bucket(root, 'Bucket', {}, [
+    CfnS3Bucket.VersioningConfigurationStatus('Enabled'),
+    CfnS3Bucket.PublicAccessBlockConfigurationBlockPublicAcls(true),
+  ]);
+
+  const rendered = Resource.renderAll(root);
+  expect(rendered.Role.Properties).toEqual({
+    RoleName: 'MyRole',
+    AssumeRolePolicyDocument: { Statement: [] },
+    Policies: [{ PolicyName: 'Inline', PolicyDocument: { Statement: [] } }],
+    ManagedPolicyArns: ['arn:aws:iam::aws:policy/ReadOnlyAccess'],
+    Tags: [{ Key: 'CostCenter', Value: '1234' }],
+  });
+  expect(rendered.Bucket.Properties).toEqual({
+    VersioningConfiguration: { Status: 'Enabled' },
+    PublicAccessBlockConfiguration: { BlockPublicAcls: true },
+  });
+});
+
+test('class names include the service', () => {
+  expect(resourceClassName('AWS::IAM::Policy')).toEqual('CfnIAMPolicy');
+  expect(resourceClassName('AWS::IoT::Policy')).toEqual('CfnIoTPolicy');
+});
+
+test('list factories are named after a single element', () => {
+  expect(['Tags', 'Policies', 'Addresses', 'Aliases', 'Statuses', 'Prefixes', 'Branches', 'NotificationARNs', 'Access'].map(singular))
+    .toEqual(['Tag', 'Policy', 'Address', 'Alias', 'Status', 'Prefix', 'Branch', 'NotificationARN', 'Access']);
+});
+
+test('the overlay only adds to types that are in the specification', () => {
+  const overlay = path.join(os.tmpdir(), 'overlay.test.json');
+  fs.writeFileSync(overlay, JSON.stringify({ ResourceTypes: { 'AWS::S3::Bucket': { Properties: { Missing: { AllowedValues: [] } } } } }));
+  try {
+    expect(() => loadSpec(undefined, overlay)).toThrow('Overlay refers to AWS::S3::Bucket.Missing, which is not in the specification');
+  } finally {
+    fs.unlinkSync(overlay);
+  }
+});
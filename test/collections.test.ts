@@ -0,0 +1,66 @@
+import { Bucket, CfnIAMRole, explain, KeyedCollectionProperty, Resource, Root } from "../cdkv3";
+
+test('adding an element with an existing key replaces it in place', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket', { tags: [{ key: 'CostCenter', value: '1234' }] }, [
+    Bucket.Tag('Team', 'Storage'),
+  ]);
+  bucket.link([Bucket.Tag('CostCenter', '5678')]);
+
+  expect(bucket.property('Tags').value).toEqual([
+    { Key: 'CostCenter', Value: '5678' },
+    { Key: 'Team', Value: 'Storage' },
+  ]);
+});
+
+test('tags render in key order', () => {
+  const root = new Root();
+  new Bucket(root, 'Bucket', {}, [
+    Bucket.Tag('Team', 'Storage'),
+    Bucket.Tag('CostCenter', '1234'),
+  ]);
+
+  expect(Resource.renderAll(root).Bucket.Properties.Tags).toEqual([
+    { Key: 'CostCenter', Value: '1234' },
+    { Key: 'Team', Value: 'Storage' },
+  ]);
+});
+
+test('lists of primitives are de-duplicated', () => {
+  const root = new Root();
+  const role = new CfnIAMRole(root, 'Role', { managedPolicyArns: ['arn:a', 'arn:b'] }, [
+    CfnIAMRole.ManagedPolicyArn('arn:a'),
+  ]);
+
+  expect(role.property('ManagedPolicyArns').value).toEqual(['arn:a', 'arn:b']);
+});
+
+test('removing and clearing', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket', {}, [
+    Bucket.Tag('CostCenter', '1234'),
+    Bucket.Tag('Team', 'Storage'),
+    Bucket.RemoveTag('CostCenter'),
+  ]);
+  const role = new CfnIAMRole(root, 'Role', {
+    policies: [{ policyName: 'Inline', policyDocument: {} }],
+  }, [
+    CfnIAMRole.RemovePolicy('Inline'),
+    CfnIAMRole.ManagedPolicyArn('arn:a'),
+    CfnIAMRole.ClearManagedPolicyArns(),
+  ]);
+
+  expect(bucket.property('Tags').value).toEqual([{ Key: 'Team', Value: 'Storage' }]);
+  expect(role.property('Policies').value).toEqual([]);
+  expect(role.property('ManagedPolicyArns').value).toEqual([]);
+  expect(explain(bucket, 'Tags').writes.map(w => w.operation)).toEqual(['add', 'add', 'remove']);
+});
+
+test('keyed collections without a key field use the elements as keys', () => {
+  const prop = new KeyedCollectionProperty({ sorted: true });
+  prop.add('b');
+  prop.add('a');
+  prop.add('b');
+
+  expect(prop.value).toEqual(['a', 'b']);
+});
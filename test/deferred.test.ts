@@ -0,0 +1,66 @@
+import { Bucket, BucketPolicy, Construct, explainDeferred, PolicyStatement, Principal, Resource, Root, Scope } from "../cdkv3";
+
+function statement() {
+  return new PolicyStatement({ actions: ['s3:GetObject'], principals: [Principal.anyone()] });
+}
+
+test('persistent linkables apply to constructs added later', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+  bucket.link([statement()], { persistent: true });
+
+  // Created after the link() call
+  new BucketPolicy(bucket, 'Policy', { bucket: bucket.ref });
+
+  expect(Resource.renderAll(root).BucketPolicy.Properties.PolicyDocument.Statement).toHaveLength(1);
+});
+
+test('persistent linkables reach floating constructs linked later', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+  bucket.link([statement()], { persistent: true });
+  bucket.link([new BucketPolicy(Scope.FLOATING, 'Policy')]);
+
+  expect(Resource.renderAll(root).BucketPolicy.Properties.PolicyDocument.Statement).toHaveLength(1);
+});
+
+test('persistent linkables do not apply twice', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+  new BucketPolicy(bucket, 'Policy', { bucket: bucket.ref });
+  bucket.link([statement()], { persistent: true });
+  root.seal();
+
+  expect(Resource.renderAll(root).BucketPolicy.Properties.PolicyDocument.Statement).toHaveLength(1);
+});
+
+test('persistent linkables that never apply are reported when sealing', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+  bucket.link([statement()], { persistent: true });
+
+  expect(() => root.seal()).toThrow(/PolicyStatement.* did not apply to anything in Bucket@Bucket/);
+});
+
+test('persistent linkables cannot be added after sealing', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+  root.seal();
+
+  expect(() => bucket.link([Bucket.BucketName('x')], { persistent: true })).toThrow('the tree has already been sealed');
+});
+
+test('the report lists the constructs each deferred modifier reached', () => {
+  const root = new Root();
+  const group = new Construct(root, 'Group');
+  group.link([Bucket.Tag('Team', 'Storage')], { persistent: true });
+  new Bucket(group, 'One');
+  new Bucket(group, 'Two');
+  root.seal();
+
+  expect(explainDeferred(root)).toMatch(new RegExp([
+    'CollectionTweak\\("AWS::S3::Bucket", "Tags", {"Key":"Team","Value":"Storage"}\\), linked to Construct@Group at .*deferred.test.ts:56:.*',
+    '  -> Bucket@Group/One',
+    '  -> Bucket@Group/Two',
+  ].join('\n')));
+});
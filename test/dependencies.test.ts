@@ -0,0 +1,30 @@
+import { Bucket, BucketPolicy, DependencyGraph, Resource, Root } from "../cdkv3";
+
+test('references between resources become dependencies', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+  const pol = new BucketPolicy(root, 'Policy', { bucket: bucket.ref });
+
+  const graph = DependencyGraph.fromResources([pol, bucket]);
+
+  expect(graph.dependenciesOf(pol)).toEqual([bucket]);
+  expect(graph.topologicalOrder()).toEqual([bucket, pol]);
+});
+
+test('explicit dependencies render as DependsOn', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+  const other = new Bucket(root, 'Other');
+  other.addDependency(bucket);
+
+  expect(Resource.renderAll(root).Other.DependsOn).toEqual(['Bucket']);
+});
+
+test('dependency cycles are reported with construct paths', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+  const pol = new BucketPolicy(bucket, 'Policy', { bucket: bucket.ref });
+  bucket.addDependency(pol);
+
+  expect(() => Resource.renderAll(root)).toThrow('Dependency cycle between resources: Bucket -> Bucket/Policy -> Bucket');
+});
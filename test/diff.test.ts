@@ -0,0 +1,98 @@
+import { Bucket, BucketPolicy, Construct, Resource, Root, Stack, Synthesizer, TemplateDiff } from "../cdkv3";
+
+function app(options: { bucketName?: string, wrap?: boolean, versioned?: boolean } = {}) {
+  const root = new Root();
+  const scope = options.wrap ? new Construct(root, 'Storage') : root;
+  const bucket = new Bucket(scope, 'Bucket', {
+    bucketName: options.bucketName ?? 'my-bucket',
+    tags: [{ key: 'Team', value: 'Storage' }],
+    ...options.versioned ? { versioningConfiguration: { status: 'Enabled' } } : {},
+  });
+  new BucketPolicy(root, 'Policy', { bucket: bucket.ref });
+  return Resource.renderAll(root);
+}
+
+test('identical templates have no differences', () => {
+  const diff = TemplateDiff.between(app(), app());
+
+  expect(diff.isEmpty).toBe(true);
+  expect(diff.toString()).toEqual('');
+});
+
+test('added, removed and changed properties', () => {
+  const diff = TemplateDiff.between(app(), app({ versioned: true }));
+
+  expect(diff.toJson()).toEqual({
+    resources: [{
+      change: 'changed',
+      type: 'AWS::S3::Bucket',
+      logicalId: 'Bucket',
+      replacement: 'none',
+      changes: [{
+        change: 'added',
+        path: ['Properties', 'VersioningConfiguration'],
+        newValue: { Status: 'Enabled' },
+        updateType: 'Mutable',
+      }],
+    }],
+    otherChanges: [],
+  });
+});
+
+test('changes to immutable properties replace the resource', () => {
+  const diff = TemplateDiff.between(app(), app({ bucketName: 'other-bucket' }));
+
+  expect(diff.replacements.map(r => r.logicalId)).toEqual(['Bucket']);
+  expect(diff.toString()).toEqual([
+    '~ AWS::S3::Bucket Bucket (replaced)',
+    '    ~ /Properties/BucketName (requires replacement)',
+    '      - "my-bucket"',
+    '      + "other-bucket"',
+  ].join('\n'));
+});
+
+test('renames are detected by type and properties, and references follow them', () => {
+  const diff = TemplateDiff.between(app(), app({ wrap: true }));
+
+  // The policy refers to the bucket by its new ID, but that is not a change
+  expect(diff.resources).toEqual([{
+    change: 'renamed',
+    type: 'AWS::S3::Bucket',
+    logicalId: 'StorageBucket',
+    oldLogicalId: 'Bucket',
+    replacement: 'replace',
+    changes: [],
+  }]);
+  expect(diff.toString()).toEqual('~ AWS::S3::Bucket Bucket -> StorageBucket (replaced)');
+});
+
+test('dissimilar resources are added and removed', () => {
+  const before = { Old: { Type: 'AWS::S3::Bucket', Properties: { BucketName: 'a', Tags: [] } } };
+  const after = { New: { Type: 'AWS::S3::Bucket', Properties: { BucketName: 'b', AccessControl: 'Private' } } };
+  const diff = TemplateDiff.between(before, after);
+
+  expect(diff.resources.map(r => [r.change, r.logicalId])).toEqual([['added', 'New'], ['removed', 'Old']]);
+  expect(diff.toString()).toContain([
+    '- AWS::S3::Bucket Old',
+    '-   {',
+    '-     "Type": "AWS::S3::Bucket",',
+  ].join('\n'));
+});
+
+test('full templates also diff the other sections', () => {
+  const synth = (description: string) => {
+    const root = new Root();
+    new Bucket(new Stack(root, 'Stack', { description }), 'Bucket');
+    return Synthesizer.synthesizeStacks(root)[0].template;
+  };
+  const diff = TemplateDiff.between(synth('before'), synth('after'));
+
+  expect(diff.resources).toEqual([]);
+  expect(diff.otherChanges).toEqual([{ change: 'changed', path: ['Description'], oldValue: 'before', newValue: 'after' }]);
+});
+
+test('colored output', () => {
+  const diff = TemplateDiff.between(app(), app({ bucketName: 'other-bucket' }));
+
+  expect(diff.toString({ color: true })).toContain('\x1b[33m~ AWS::S3::Bucket Bucket\x1b[0m \x1b[1;31m(replaced)\x1b[0m');
+});
@@ -0,0 +1,72 @@
+import { Bucket, Construct, DerivedProperty, explain, LinkableSlot, Resource, Root, ScalarProperty } from "../cdkv3";
+
+function fancyBucket(scope: Construct) {
+  return new Bucket(scope, 'Bucket', {}, [
+    Bucket.BucketName('MyBucket'),
+    Bucket.Tag('CostCenter', '1234'),
+  ]);
+}
+
+test('explain lists the modifier and link() call behind each write', () => {
+  const root = new Root();
+  const bucket = fancyBucket(root);
+  bucket.link([Bucket.Tag('Team', 'Storage')]);
+
+  const explanation = explain(bucket, 'Tags');
+
+  expect(explanation.writes).toEqual([
+    expect.objectContaining({
+      operation: 'add',
+      value: { Key: 'CostCenter', Value: '1234' },
+      modifier: 'CollectionTweak("AWS::S3::Bucket", "Tags", {"Key":"CostCenter","Value":"1234"})',
+      modifierCreatedAt: expect.stringMatching(/^fancyBucket .*explain.test.ts:6:/),
+      linkedTo: 'Bucket@Bucket',
+      linkedAt: expect.stringMatching(/^fancyBucket .*explain.test.ts:4:/),
+    }),
+    expect.objectContaining({
+      operation: 'add',
+      value: { Key: 'Team', Value: 'Storage' },
+      linkedAt: expect.stringMatching(/explain.test.ts:13:/),
+    }),
+  ]);
+});
+
+test('explain renders a report', () => {
+  const root = new Root();
+  const bucket = fancyBucket(root);
+  (bucket.property('BucketName') as ScalarProperty).set('Renamed');
+
+  expect(explain(bucket, 'BucketName').toString()).toMatch(new RegExp([
+    'BucketName of Bucket@Bucket = "Renamed"',
+    '  1. set "MyBucket"',
+    '     by ScalarTweak\\("AWS::S3::Bucket", "BucketName", "MyBucket"\\), created at fancyBucket .*explain.test.ts:5:.*',
+    '     applied to Bucket@Bucket by link\\(\\) at fancyBucket .*explain.test.ts:4:.*',
+    '  2. set "Renamed"',
+    '     at .*explain.test.ts:37:.*',
+  ].join('\n')));
+});
+
+test('explain follows derived properties', () => {
+  const root = new Root();
+  const res = new Derived(root, 'Derived');
+  res.slot.set(new Construct(root, 'Target'));
+
+  expect(explain(res, 'Path').toString()).toMatch(new RegExp([
+    'Path of Derived@Derived = "Target"',
+    '  1. set "Target"',
+    '     at .*',
+    '  derived from:',
+    '    LinkableSlot\\(Target\\) = "Construct@Target"',
+    '      1. set "Construct@Target"',
+    '         at .*explain.test.ts:52:.*',
+  ].join('\n')));
+});
+
+class Derived extends Resource {
+  public readonly slot = new LinkableSlot(['Target']);
+
+  constructor(scope: Construct, id: string) {
+    super(scope, id, 'Test::Derived');
+    this.addProperty('Path', new DerivedProperty(this.slot, (x) => x.constructPath.join('/')));
+  }
+}
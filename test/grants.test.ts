@@ -0,0 +1,130 @@
+import { Bucket, BucketPolicy, Grant, ManagedPolicy, Policy, PolicyStatement, Principal, Resource, Role, Root } from "../cdkv3";
+
+const READ = ['s3:GetObject*', 's3:GetBucket*', 's3:List*'];
+const ARN = { 'Fn::GetAtt': ['Bucket', 'Arn'] };
+const OBJECTS_ARN = { 'Fn::Sub': '${Bucket.Arn}/*' };
+
+test('roles are assumed by their principal', () => {
+  const root = new Root();
+  new Role(root, 'Role', { assumedBy: Principal.service('lambda.amazonaws.com') });
+
+  expect(Resource.renderAll(root)).toMatchObject({
+    Role: {
+      Type: 'AWS::IAM::Role',
+      Properties: {
+        AssumeRolePolicyDocument: {
+          Version: '2012-10-17',
+          Statement: [{ Effect: 'Allow', Principal: { Service: 'lambda.amazonaws.com' }, Action: 'sts:AssumeRole' }],
+        },
+      },
+    },
+  });
+});
+
+test('granting to a role puts the statement in its default policy', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+  new Role(root, 'Role', { assumedBy: Principal.service('lambda.amazonaws.com') }, [
+    Grant.read(bucket),
+    new PolicyStatement({ actions: ['s3:ListAllMyBuckets'], resources: ['*'] }),
+  ]);
+
+  const resources = Resource.renderAll(root);
+  expect(resources.RoleDefaultPolicy).toMatchObject({
+    Type: 'AWS::IAM::Policy',
+    Properties: {
+      PolicyName: 'RoleDefaultPolicy',
+      Roles: [{ Ref: 'Role' }],
+      PolicyDocument: {
+        Version: '2012-10-17',
+        Statement: [
+          { Effect: 'Allow', Action: READ, Resource: [ARN, OBJECTS_ARN] },
+          { Effect: 'Allow', Action: 's3:ListAllMyBuckets', Resource: '*' },
+        ],
+      },
+    },
+  });
+  expect(resources.Role.Properties.AssumeRolePolicyDocument.Statement).toHaveLength(1);
+});
+
+test('grants can be passed to the bucket too', () => {
+  const root = new Root();
+  const role = new Role(root, 'Role', { assumedBy: Principal.service('lambda.amazonaws.com') });
+  new Bucket(root, 'Bucket', {}, [Grant.read(role), Grant.write(role)]);
+
+  expect(Resource.renderAll(root).RoleDefaultPolicy.Properties.PolicyDocument.Statement).toEqual([{
+    Effect: 'Allow',
+    Action: [...READ, 's3:DeleteObject*', 's3:PutObject', 's3:PutObjectLegalHold', 's3:PutObjectRetention', 's3:PutObjectTagging', 's3:PutObjectVersionTagging', 's3:Abort*'],
+    Resource: [ARN, OBJECTS_ARN],
+  }]);
+});
+
+test('grants to external principals create a bucket policy', () => {
+  const root = new Root();
+  new Bucket(root, 'Bucket', {}, [Grant.read(Principal.account('123456789012'))]);
+
+  expect(Resource.renderAll(root).BucketPolicy).toMatchObject({
+    Type: 'AWS::S3::BucketPolicy',
+    Properties: {
+      Bucket: { Ref: 'Bucket' },
+      PolicyDocument: {
+        Version: '2012-10-17',
+        Statement: [{
+          Effect: 'Allow',
+          Principal: { AWS: 'arn:aws:iam::123456789012:root' },
+          Action: READ,
+          Resource: [ARN, OBJECTS_ARN],
+        }],
+      },
+    },
+  });
+});
+
+test('grants to external principals use the existing bucket policy', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+  new BucketPolicy(root, 'Policy', { bucket: bucket.ref });
+  bucket.link([Grant.read(Principal.account('123456789012'))]);
+
+  const resources = Resource.renderAll(root);
+  expect(Object.keys(resources)).toEqual(['Bucket', 'Policy']);
+  expect(resources.Policy.Properties.PolicyDocument.Statement).toHaveLength(1);
+});
+
+test('the created bucket policy does not clash with other children of the bucket', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+  new BucketPolicy(bucket, 'Policy', { bucket: new Bucket(root, 'Other').ref });
+  bucket.link([Grant.read(Principal.account('123456789012'))]);
+
+  const resources = Resource.renderAll(root);
+  expect(resources.BucketPolicy.Properties.Bucket).toEqual({ Ref: 'Other' });
+  expect(resources.BucketPolicy2.Properties).toMatchObject({ Bucket: { Ref: 'Bucket' }, PolicyDocument: { Statement: [{ Action: READ }] } });
+});
+
+test('grants that have nothing to grant on do not apply', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+
+  expect(() => new Bucket(root, 'Other', {}, [Grant.read(bucket)])).toThrow(/Grant.read\(Bucket@Bucket\) did not apply to anything/);
+});
+
+test('policies attach to the roles they are linked to', () => {
+  const root = new Root();
+  new Role(root, 'Role', { assumedBy: Principal.anyone() }, [
+    new ManagedPolicy(root, 'Managed', {}, [new PolicyStatement({ actions: ['sqs:*'], resources: ['*'] })]),
+    new Policy(root, 'Inline', { policyName: 'Inline' }, [new PolicyStatement({ actions: ['sns:*'], resources: ['*'] })]),
+  ]);
+
+  const resources = Resource.renderAll(root);
+  expect(resources.Managed.Properties).toMatchObject({
+    Roles: [{ Ref: 'Role' }],
+    PolicyDocument: { Version: '2012-10-17', Statement: [{ Effect: 'Allow', Action: 'sqs:*', Resource: '*' }] },
+  });
+  expect(resources.Inline.Properties).toMatchObject({
+    PolicyName: 'Inline',
+    Roles: [{ Ref: 'Role' }],
+    PolicyDocument: { Version: '2012-10-17', Statement: [{ Effect: 'Allow', Action: 'sns:*', Resource: '*' }] },
+  });
+  expect(resources.RoleDefaultPolicy).toBeUndefined();
+});
@@ -0,0 +1,60 @@
+import { Bucket, Construct, Resource, Root } from "../cdkv3";
+
+test('ids are sanitized', () => {
+  const root = new Root();
+  const bucket = new Bucket(new Construct(root, 'my-app'), 'Data_Bucket');
+
+  expect(bucket.logicalId).toEqual('myappDataBucket');
+});
+
+test('colliding ids get a hash of their path', () => {
+  const root = new Root();
+  const one = new Bucket(new Construct(root, 'A'), 'BC');
+  const two = new Bucket(new Construct(root, 'AB'), 'C');
+
+  expect(one.logicalId).toMatch(/^ABC[0-9A-F]{8}$/);
+  expect(two.logicalId).toMatch(/^ABC[0-9A-F]{8}$/);
+  expect(one.logicalId).not.toEqual(two.logicalId);
+  expect(Object.keys(Resource.renderAll(root))).toHaveLength(2);
+});
+
+test('adding constructs does not change existing ids', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'AB');
+  expect(bucket.logicalId).toEqual('AB');
+
+  new Bucket(new Construct(root, 'Group'), 'Data');
+  expect(bucket.logicalId).toEqual('AB');
+});
+
+test('long ids are shortened with a hash', () => {
+  const root = new Root();
+  const bucket = new Bucket(new Construct(root, 'A'.repeat(200)), 'B'.repeat(100));
+
+  expect(bucket.logicalId).toHaveLength(255);
+  expect(bucket.logicalId).toMatch(/^A{200}B{47}[0-9A-F]{8}$/);
+});
+
+test('logical ids can be overridden, but must be unique', () => {
+  const root = new Root();
+  const one = new Bucket(root, 'One');
+  const two = new Bucket(root, 'Two');
+  one.overrideLogicalId('Data');
+
+  expect(Object.keys(Resource.renderAll(root))).toEqual(['Data', 'Two']);
+
+  two.overrideLogicalId('Data');
+  expect(() => one.logicalId).toThrow('Duplicate logical ID Data: One and Two');
+});
+
+test('overridden ids must be valid', () => {
+  const root = new Root();
+  expect(() => new Bucket(root, 'One').overrideLogicalId('my-bucket')).toThrow('Invalid logical ID for Bucket@One: "my-bucket"');
+});
+
+test('constructs with the id Default keep the logical ID of their parent', () => {
+  const root = new Root();
+  const bucket = new Bucket(new Construct(root, 'Data'), 'Default');
+
+  expect(bucket.logicalId).toEqual('Data');
+});
@@ -0,0 +1,69 @@
+import { Bucket, Lens, LensTweak, Resource, Root } from "../cdkv3";
+
+test('descend does not clobber existing objects', () => {
+  const lens = new Lens().descend('A').set('C', 2);
+
+  expect(lens.apply({ A: { B: 1 } })).toEqual({ A: { B: 1, C: 2 } });
+});
+
+test('apply does not change its input', () => {
+  const input = { A: { B: 1 } };
+  new Lens().descend('A').set('B', 2).apply(input);
+
+  expect(input).toEqual({ A: { B: 1 } });
+});
+
+test('add elements and scalars to lists', () => {
+  const lens = new Lens()
+    .descendList('Rules').addElement({ Id: 'a' }).set('Status', 'Enabled');
+
+  expect(lens.apply({})).toEqual({ Rules: [{ Id: 'a', Status: 'Enabled' }] });
+  expect(new Lens().descendList('Names').append('x', 'y').apply({ Names: ['w'] })).toEqual({ Names: ['w', 'x', 'y'] });
+});
+
+test('select and remove elements', () => {
+  const tags = [{ Key: 'A', Value: '1' }, { Key: 'B', Value: '2' }];
+
+  expect(new Lens().whereEquals('Key', 'B').set('Value', '3').apply(tags)).toEqual([{ Key: 'A', Value: '1' }, { Key: 'B', Value: '3' }]);
+  expect(new Lens().index(0).remove().apply(tags)).toEqual([{ Key: 'B', Value: '2' }]);
+  expect(new Lens().where(x => x === 'a').remove().apply(['a', 'b', 'a'])).toEqual(['b']);
+});
+
+test('nested property tweaks only change their own field', () => {
+  const root = new Root();
+  new Bucket(root, 'Bucket', {}, [
+    Bucket.BucketName('MyBucket'),
+    Bucket.LoggingConfigurationDestinationBucketName('Logs'),
+    Bucket.LoggingConfigurationLogFilePrefix('mybucket/'),
+    new LensTweak('AWS::S3::Bucket', 'Tags', new Lens().addElement({ Key: 'CostCenter', Value: '1234' })),
+  ]);
+
+  expect(Resource.renderAll(root).Bucket.Properties).toEqual({
+    BucketName: 'MyBucket',
+    LoggingConfiguration: { DestinationBucketName: 'Logs', LogFilePrefix: 'mybucket/' },
+    Tags: [{ Key: 'CostCenter', Value: '1234' }],
+  });
+});
+
+test('lenses on keyed lists keep one element per key', () => {
+  const root = new Root();
+  new Bucket(root, 'Bucket', { tags: [{ key: 'CostCenter', value: '1234' }, { key: 'Team', value: 'Storage' }] }, [
+    new LensTweak('AWS::S3::Bucket', 'Tags', new Lens().addElement({ Key: 'CostCenter', Value: '5678' })),
+  ]);
+
+  expect(Resource.renderAll(root).Bucket.Properties.Tags).toEqual([
+    { Key: 'CostCenter', Value: '5678' },
+    { Key: 'Team', Value: 'Storage' },
+  ]);
+});
+
+test('nested property tweaks keep the priority of the value they change', () => {
+  const root = new Root();
+  new Bucket(root, 'Bucket', {}, [
+    Bucket.LoggingConfiguration.default({ destinationBucketName: 'Defaulted' }),
+    Bucket.LoggingConfigurationLogFilePrefix('mybucket/'),
+    Bucket.LoggingConfiguration({ destinationBucketName: 'Logs' }),
+  ]);
+
+  expect(Resource.renderAll(root).Bucket.Properties.LoggingConfiguration).toEqual({ DestinationBucketName: 'Logs' });
+});
@@ -0,0 +1,26 @@
+import { Bucket, Root, ScalarTweak } from "../cdkv3";
+
+test('modifier that applies to nothing is an error', () => {
+  const root = new Root();
+
+  expect(() => {
+    new Bucket(root, 'Bucket', {}, [
+      new ScalarTweak('AWS::S3::Bukcet', 'BucketName', 'MyBucket'),
+    ]);
+  }).toThrow(/ScalarTweak\("AWS::S3::Bukcet", "BucketName", "MyBucket"\) did not apply to anything in Bucket@Bucket, created at:[\s\S]*linking.test.ts/);
+});
+
+test('unmatched modifiers can be collected as warnings', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+
+  bucket.link([
+    Bucket.BucketName('MyBucket'),
+    new ScalarTweak('AWS::S3::Bukcet', 'BucketName', 'MyBucket'),
+  ], { unmatched: 'warn' });
+
+  expect(bucket.warnings).toEqual([
+    expect.stringContaining('ScalarTweak("AWS::S3::Bukcet"'),
+  ]);
+  expect(bucket.property('BucketName').value).toEqual('MyBucket');
+});
@@ -0,0 +1,97 @@
+import { Bucket, BucketPolicy, PolicyDocument, PolicyStatement, Principal, Resource, Root } from "../cdkv3";
+
+function bucketPolicy(...statements: PolicyStatement[]) {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+  new BucketPolicy(root, 'Policy', { bucket: bucket.ref }, statements);
+  return { root, bucket, policyDocument: () => Resource.renderAll(root).Policy.Properties.PolicyDocument };
+}
+
+test('statements render all their fields, with principals grouped by type', () => {
+  const { policyDocument } = bucketPolicy(new PolicyStatement({
+    sid: 'DenyInsecure',
+    effect: 'Deny',
+    notPrincipals: [Principal.account('123456789012'), Principal.service('logging.s3.amazonaws.com'), Principal.arn('arn:aws:iam::123456789012:role/Admin')],
+    notActions: ['s3:GetObject'],
+    notResources: ['arn:aws:s3:::public/*'],
+    conditions: { Bool: { 'aws:SecureTransport': 'false' } },
+  }));
+
+  expect(policyDocument()).toEqual({
+    Version: '2012-10-17',
+    Statement: [{
+      Sid: 'DenyInsecure',
+      Effect: 'Deny',
+      NotPrincipal: {
+        AWS: ['arn:aws:iam::123456789012:root', 'arn:aws:iam::123456789012:role/Admin'],
+        Service: 'logging.s3.amazonaws.com',
+      },
+      NotAction: 's3:GetObject',
+      NotResource: 'arn:aws:s3:::public/*',
+      Condition: { Bool: { 'aws:SecureTransport': 'false' } },
+    }],
+  });
+});
+
+test('single element lists are rendered as the element, and duplicates are dropped', () => {
+  const { policyDocument } = bucketPolicy(new PolicyStatement({
+    actions: ['s3:GetObject', 's3:GetObject'],
+    principals: [Principal.anyone(), Principal.federated('cognito-identity.amazonaws.com')],
+  }));
+
+  expect(policyDocument().Statement).toEqual([{
+    Effect: 'Allow',
+    Principal: { AWS: '*', Federated: 'cognito-identity.amazonaws.com' },
+    Action: 's3:GetObject',
+  }]);
+});
+
+test('statements with the same effect and principals are merged', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+  const anyone = [Principal.anyone()];
+  new BucketPolicy(root, 'Policy', { bucket: bucket.ref }, [
+    // Each `bucket.arn` is a different token, for the same value
+    new PolicyStatement({ actions: ['s3:GetObject'], principals: anyone, resources: [bucket.arn] }),
+    new PolicyStatement({ actions: ['s3:PutObject'], principals: anyone, resources: [bucket.arn] }),
+    new PolicyStatement({ actions: ['s3:GetObject', 's3:PutObject'], principals: anyone, resources: ['arn:aws:s3:::other'] }),
+    new PolicyStatement({ actions: ['s3:GetObject'], principals: [Principal.service('s3.amazonaws.com')], resources: [bucket.arn] }),
+    new PolicyStatement({ sid: 'Separate', actions: ['s3:GetObject'], principals: anyone, resources: [bucket.arn] }),
+  ]);
+
+  const arn = { 'Fn::GetAtt': ['Bucket', 'Arn'] };
+  expect(Resource.renderAll(root).Policy.Properties.PolicyDocument.Statement).toEqual([
+    { Effect: 'Allow', Principal: { AWS: '*' }, Action: ['s3:GetObject', 's3:PutObject'], Resource: [arn, 'arn:aws:s3:::other'] },
+    { Effect: 'Allow', Principal: { Service: 's3.amazonaws.com' }, Action: 's3:GetObject', Resource: arn },
+    { Sid: 'Separate', Effect: 'Allow', Principal: { AWS: '*' }, Action: 's3:GetObject', Resource: arn },
+  ]);
+});
+
+test('statements that differ in both actions and resources are not merged', () => {
+  const { policyDocument } = bucketPolicy(
+    new PolicyStatement({ actions: ['s3:GetObject'], principals: [Principal.anyone()], resources: ['a'] }),
+    new PolicyStatement({ actions: ['s3:PutObject'], principals: [Principal.anyone()], resources: ['b'] }),
+  );
+
+  expect(policyDocument().Statement).toHaveLength(2);
+});
+
+test('resource policies need principals', () => {
+  const { policyDocument } = bucketPolicy(new PolicyStatement({ actions: ['s3:GetObject'] }));
+
+  expect(() => policyDocument()).toThrow(/Invalid PolicyDocument@Policy\/PolicyDocument:\n  PolicyStatement.*: statements in resource policies need principals or notPrincipals/);
+});
+
+test('identity policies need resources and cannot have principals', () => {
+  const doc = new PolicyDocument(new Root(), 'Doc', { type: 'identity' });
+  new PolicyStatement({ policyDocument: doc, actions: ['s3:GetObject'], principals: [Principal.anyone()] });
+  new PolicyStatement({ policyDocument: doc, resources: ['*'], notResources: ['a'] });
+
+  expect(() => doc.render()).toThrow([
+    'Invalid PolicyDocument@Doc:',
+    '  PolicyStatement({"Effect":"Allow","Principal":{"AWS":"*"},"Action":"s3:GetObject"}): statements in identity policies cannot have principals',
+    '  PolicyStatement({"Effect":"Allow","Principal":{"AWS":"*"},"Action":"s3:GetObject"}): statements in identity policies need resources or notResources',
+    '  PolicyStatement({"Effect":"Allow","Resource":"*","NotResource":"a"}): statement has no actions or notActions',
+    '  PolicyStatement({"Effect":"Allow","Resource":"*","NotResource":"a"}): statement cannot have both resources and notResources',
+  ].join('\n'));
+});
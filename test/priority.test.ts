@@ -0,0 +1,54 @@
+import { Bucket, Construct, explain, ILinkable, Resource, Root } from "../cdkv3";
+
+function fancyBucket(scope: Construct, tweaks: ILinkable[] = []) {
+  return new Bucket(scope, 'Bucket', {}, [
+    Bucket.BucketName.default('MyBucket'),
+    ...tweaks,
+  ]);
+}
+
+test('a normal value replaces a default, regardless of order', () => {
+  const root = new Root();
+  const bucket = fancyBucket(root, [Bucket.BucketName('Other')]);
+  bucket.link([Bucket.BucketName.default('Ignored')]);
+
+  expect(Resource.renderAll(root).Bucket.Properties.BucketName).toEqual('Other');
+});
+
+test('an override replaces a normal value, regardless of order', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket', {}, [
+    Bucket.BucketName.override('Forced'),
+    Bucket.BucketName('Other'),
+  ]);
+
+  expect(bucket.property('BucketName').value).toEqual('Forced');
+});
+
+test('the same value twice is not a conflict', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket', { bucketName: 'Same' }, [Bucket.BucketName('Same')]);
+
+  expect(bucket.property('BucketName').value).toEqual('Same');
+});
+
+test('conflicting values of the same priority show both sources', () => {
+  const root = new Root();
+
+  expect(() => new Bucket(root, 'Bucket', { bucketName: 'One' }, [Bucket.BucketName('Two')])).toThrow(new RegExp([
+    'Conflicting values for BucketName of Bucket@Bucket:',
+    '  "One" from props.bucketName, created at .*priority.test.ts:38:.*',
+    '  "Two" from ScalarTweak\\("AWS::S3::Bucket", "BucketName", "Two"\\), created at .*priority.test.ts:38:.*',
+    'Use .default\\(\\) or .override\\(\\) to say which one should win.',
+  ].join('\n')));
+});
+
+test('modifiers show their priority', () => {
+  const root = new Root();
+  const bucket = fancyBucket(root, [Bucket.BucketName.override('Forced')]);
+
+  expect(explain(bucket, 'BucketName').writes.map(w => w.modifier)).toEqual([
+    'ScalarTweak("AWS::S3::Bucket", "BucketName", "MyBucket", DEFAULT)',
+    'ScalarTweak("AWS::S3::Bucket", "BucketName", "Forced", OVERRIDE)',
+  ]);
+});
@@ -13,7 +13,7 @@ test('Derived from Link', () => {
   const root = new Root();
   const prop = new LinkableSlot([], new NumberConstruct(root, 'Nr', 2));
   const derived = new DerivedProperty(prop, (x) => x.value * 2);
-  expect(derived.value).toEqual(6);
+  expect(derived.value).toEqual(4);
 });
 
 class NumberConstruct extends Construct {
@@ -0,0 +1,67 @@
+import { Bucket, CfnS3Bucket, Construct, explain, ILinkable, PropertyTable, Resource, Root, ScalarProperty, ScalarTweak, Schema } from "../cdkv3";
+
+test('props and modifiers share precedence', () => {
+  const root = new Root();
+  new Bucket(root, 'Defaulted', { bucketName: 'FromProps' }, [Bucket.BucketName.default('Ignored')]);
+  new Bucket(root, 'Overridden', { bucketName: 'Ignored' }, [Bucket.BucketName.override('Forced')]);
+
+  const rendered = Resource.renderAll(root);
+  expect(rendered.Defaulted.Properties.BucketName).toEqual('FromProps');
+  expect(rendered.Overridden.Properties.BucketName).toEqual('Forced');
+});
+
+test('a prop and a modifier that disagree are a conflict', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket', { bucketName: 'One' });
+
+  expect(() => bucket.link([Bucket.BucketName('Two')])).toThrow(/"One" from props.bucketName, created at .*props.test.ts:15:.*\n  "Two" from ScalarTweak/);
+});
+
+test('invalid props report where they were passed', () => {
+  const root = new Root();
+
+  expect(() => new CfnS3Bucket(root, 'Bucket', { versioningConfiguration: { status: 'On' as any } }))
+    .toThrow(/Invalid value for VersioningConfiguration of CfnS3Bucket@Bucket: .*\nModifier created at:\n[\s\S]*props.test.ts/);
+});
+
+test('explain names the props a value came from', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket', { bucketName: 'FromProps', tags: [{ key: 'Team', value: 'Storage' }] }, [
+    Bucket.Tag('CostCenter', '1234'),
+  ]);
+
+  expect(explain(bucket, 'BucketName').writes.map(w => w.modifier)).toEqual(['props.bucketName']);
+  expect(explain(bucket, 'Tags').writes.map(w => w.modifier)).toEqual(['props.tags', 'CollectionTweak("AWS::S3::Bucket", "Tags", {"Key":"CostCenter","Value":"1234"})']);
+});
+
+interface QueueProps {
+  readonly queueName?: string;
+}
+
+class Queue extends Resource {
+  public static readonly QueueName = (value: string) => new ScalarTweak('Test::Queue', 'QueueName', value);
+
+  public static readonly PROPERTIES: PropertyTable<QueueProps> = {
+    queueName: {
+      name: 'QueueName',
+      create: () => new ScalarProperty(undefined, { schema: Schema.string(), required: true }),
+      fromProps: (x) => Queue.QueueName(x),
+    },
+  };
+
+  constructor(scope: Construct, id: string, props?: QueueProps & { readonly extra?: string }, linkables?: ILinkable[]) {
+    super(scope, id, 'Test::Queue');
+    this.makeLinkableAs('Test::Queue');
+    this.declareProperties(Queue.PROPERTIES, props, linkables);
+  }
+}
+
+test('hand-written resources can declare a property table', () => {
+  const root = new Root();
+  new Queue(root, 'Queue', { queueName: 'jobs', extra: 'not in the table' });
+  new Queue(root, 'Other', {}, [Queue.QueueName('other')]);
+
+  const rendered = Resource.renderAll(root);
+  expect(rendered.Queue.Properties).toEqual({ QueueName: 'jobs' });
+  expect(rendered.Other.Properties).toEqual({ QueueName: 'other' });
+});
@@ -0,0 +1,64 @@
+import { Aspect, Bucket, BucketPolicy, Construct, Resource, ResourceAttributes, Root } from "../cdkv3";
+
+function tree() {
+  const root = new Root();
+  const group = new Construct(root, 'Group');
+  const bucket = new Bucket(group, 'Bucket');
+  const policy = new BucketPolicy(bucket, 'Policy', { bucket: bucket.ref });
+  const other = new Bucket(root, 'Other');
+  return { root, group, bucket, policy, other };
+}
+
+test('findAll with a type guard', () => {
+  const { root, bucket, other } = tree();
+
+  const buckets: Bucket[] = root.findAll((x): x is Bucket => x instanceof Bucket);
+  expect(buckets).toEqual([bucket, other]);
+});
+
+test('find constructs by path and id', () => {
+  const { root, group, policy } = tree();
+
+  expect(root.findByPath('Group/Bucket/Policy')).toBe(policy);
+  expect(root.findByPath('Group/Nope/Policy')).toBeUndefined();
+  expect(root.tryFindChild('Group')).toBe(group);
+  expect(group.tryFindChild('Nope')).toBeUndefined();
+});
+
+test('ancestors and root', () => {
+  const { root, group, bucket, policy } = tree();
+
+  expect(policy.ancestors).toEqual([bucket, group, root]);
+  expect(policy.root).toBe(root);
+});
+
+test('depth-first and breadth-first traversal', () => {
+  const { root } = tree();
+
+  expect(Array.from(root.depthFirst()).map(x => x.id)).toEqual([undefined, 'Group', 'Bucket', 'Policy', 'PolicyDocument', 'Other']);
+  expect(Array.from(root.breadthFirst()).map(x => x.id)).toEqual([undefined, 'Group', 'Other', 'Bucket', 'Policy', 'PolicyDocument']);
+});
+
+test('find constructs by what they link as', () => {
+  const { root, bucket, other } = tree();
+
+  expect(root.findByLinksAs('AWS::S3::Bucket')).toEqual([bucket, other]);
+});
+
+test('metadata is rendered with the resource', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket', {}, [ResourceAttributes.Metadata('AWS::S3::Bucket', { Owner: 'team-x' })]);
+  bucket.addMetadata('Purpose', 'logs');
+
+  expect(bucket.metadata[0].trace.userFrame).toMatch(/query.test.ts/);
+  expect(Resource.renderAll(root).Bucket.Metadata).toEqual({ Purpose: 'logs', Owner: 'team-x' });
+});
+
+test('resources can record their construct path in metadata', () => {
+  const { root } = tree();
+  root.addAspect(Aspect.pathMetadata());
+
+  const template = Resource.renderAll(root);
+  expect(template.GroupBucketPolicy.Metadata).toEqual({ 'aws:cdk:path': 'Group/Bucket/Policy' });
+  expect(template.Other.Metadata).toEqual({ 'aws:cdk:path': 'Other' });
+});
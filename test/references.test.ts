@@ -0,0 +1,93 @@
+import { Bucket, BucketPolicy, CfnIAMRole, Construct, Policy, Resource, Role, Root, Scope, ScalarProperty } from "../cdkv3";
+
+test('a resource created inside the resource it references refers to it', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+  new BucketPolicy(new Construct(bucket, 'Nested'), 'Policy');
+
+  expect(Resource.renderAll(root).BucketNestedPolicy.Properties.Bucket).toEqual({ Ref: 'Bucket' });
+});
+
+test('a resource linked to the resource it references refers to it', () => {
+  const root = new Root();
+  new Bucket(root, 'Bucket', {}, [new BucketPolicy(Scope.FLOATING, 'Policy')]);
+  const other = new Bucket(root, 'Other');
+  const policy = new BucketPolicy(root, 'OtherPolicy');
+  other.link([policy]);
+
+  const rendered = Resource.renderAll(root);
+  expect(rendered.BucketPolicy.Properties.Bucket).toEqual({ Ref: 'Bucket' });
+  expect(rendered.OtherPolicy.Properties.Bucket).toEqual({ Ref: 'Other' });
+});
+
+test('explicit values win over references', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+  const other = new Bucket(root, 'Other');
+  new BucketPolicy(bucket, 'Policy', { bucket: other.ref });
+  bucket.link([new BucketPolicy(Scope.FLOATING, 'Linked', {}, [BucketPolicy.Bucket(other)])]);
+
+  const rendered = Resource.renderAll(root);
+  expect(rendered.BucketPolicy.Properties.Bucket).toEqual({ Ref: 'Other' });
+  expect(rendered.BucketLinked.Properties.Bucket).toEqual({ Ref: 'Other' });
+});
+
+test('a single reference to one of several resources is ambiguous', () => {
+  const root = new Root();
+  const group = new Construct(root, 'Group');
+  new Bucket(group, 'Logs');
+  new Bucket(group, 'Data');
+
+  expect(() => group.link([new BucketPolicy(Scope.FLOATING, 'Policy')]))
+    .toThrow('Bucket of BucketPolicy@Group/Policy could refer to Bucket@Group/Logs or Bucket@Group/Data, pass it explicitly to say which');
+});
+
+test('an explicit value is not ambiguous', () => {
+  const root = new Root();
+  const a = new Bucket(root, 'A');
+  new Bucket(root, 'B');
+  root.link([new BucketPolicy(Scope.FLOATING, 'Policy', { bucket: a.ref })]);
+
+  expect(Resource.renderAll(root).Policy.Properties.Bucket).toEqual({ Ref: 'A' });
+});
+
+test('a list of references gets every resource it is linked to', () => {
+  const root = new Root();
+  const assumedBy = { assumeRolePolicyDocument: { Statement: [] } };
+  const reader = new CfnIAMRole(root, 'Reader', assumedBy);
+  const writer = new CfnIAMRole(root, 'Writer', assumedBy);
+  const policy = new Policy(root, 'Policy');
+  reader.link([policy]);
+  writer.link([policy]);
+  reader.link([policy]);
+
+  // Nested in a role, a policy attaches to it
+  new Policy(writer, 'Own');
+
+  const rendered = Resource.renderAll(root);
+  expect(rendered.Policy.Properties.Roles).toEqual([{ Ref: 'Reader' }, { Ref: 'Writer' }]);
+  expect(rendered.WriterOwn.Properties.Roles).toEqual([{ Ref: 'Writer' }]);
+});
+
+test('the enclosing resource is not added to a list that already has values', () => {
+  const root = new Root();
+  const role = new Role(root, 'Role', { assumeRolePolicyDocument: {} });
+  new Policy(role, 'Policy', { roles: ['ExistingRole'] });
+
+  expect(Resource.renderAll(root).RolePolicy.Properties.Roles).toEqual(['ExistingRole']);
+});
+
+class Subscription extends Resource {
+  constructor(scope: Construct, id: string) {
+    super(scope, id, 'Test::Subscription');
+    this.addProperty('RoleArn', new ScalarProperty(undefined, { required: true }));
+    this.addReference('RoleArn', 'AWS::IAM::Role', 'Arn');
+  }
+}
+
+test('references can be to an attribute', () => {
+  const root = new Root();
+  new Subscription(new CfnIAMRole(root, 'Role', { assumeRolePolicyDocument: {} }), 'Subscription');
+
+  expect(Resource.renderAll(root).RoleSubscription.Properties.RoleArn).toEqual({ 'Fn::GetAtt': ['Role', 'Arn'] });
+});
@@ -0,0 +1,57 @@
+import { Bucket, BucketPolicy, CfnIAMRole, CfnS3Bucket, CollectionProperty, Fn, Resource, Root, ScalarProperty, Schema } from "../cdkv3";
+
+test('values are checked against the schema', () => {
+  const schema = Schema.object({
+    Status: Schema.enum('Enabled', 'Suspended'),
+    Days: Schema.number(),
+    Tags: Schema.list(Schema.object({ Key: Schema.string() }, ['Key'])),
+  });
+
+  expect(schema.validate({ Status: 'Enabled', Days: 3, Tags: [{ Key: 'a' }] })).toEqual([]);
+  expect(schema.validate({ Status: 'enabled', Days: 'three', Tags: [{}], Extra: 1 })).toEqual([
+    'Status: expected "Enabled" | "Suspended", got "enabled"',
+    'Days: expected number, got "three"',
+    'Tags[0].Key: required',
+    'Extra: unknown property, expected one of Status, Days, Tags',
+  ]);
+});
+
+test('tokens are accepted for any type', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+
+  expect(Schema.number().validate(bucket.ref)).toEqual([]);
+  expect(Schema.list(Schema.string()).validate(Fn.split(root, ',', bucket.ref))).toEqual([]);
+  expect(Schema.object({ Key: Schema.string() }, ['Key']).validate({ Key: bucket.arn })).toEqual([]);
+});
+
+test('invalid values fail where they are set', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+
+  expect(() => (bucket.property('BucketName') as ScalarProperty).set(42))
+    .toThrow('Invalid value for BucketName of Bucket@Bucket: expected string, got 42');
+  expect(() => (bucket.property('Tags') as CollectionProperty).add({ Key: 'CostCenter' }))
+    .toThrow('Invalid value for Tags of Bucket@Bucket: Value: required');
+});
+
+test('invalid values from modifiers report where the modifier was created', () => {
+  const root = new Root();
+
+  expect(() => new CfnS3Bucket(root, 'Bucket', {}, [
+    CfnS3Bucket.VersioningConfigurationStatus('On' as any),
+  ])).toThrow(/Invalid value for VersioningConfiguration of CfnS3Bucket@Bucket: Status: expected "Enabled" \| "Suspended", got "On"\nModifier created at:\n[\s\S]*schema.test.ts/);
+});
+
+test('missing required properties are reported together at render time', () => {
+  const root = new Root();
+  new Bucket(root, 'Bucket');
+  new BucketPolicy(root, 'Policy');
+  new CfnIAMRole(root, 'Role');
+
+  expect(() => Resource.renderAll(root)).toThrow([
+    'Missing required properties:',
+    '  Policy (AWS::S3::BucketPolicy): Bucket',
+    '  Role (AWS::IAM::Role): AssumeRolePolicyDocument',
+  ].join('\n'));
+});
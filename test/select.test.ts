@@ -0,0 +1,82 @@
+import { Bucket, BucketPolicy, Construct, ILinkable, Resource, Root, Select } from "../cdkv3";
+
+function twoBuckets() {
+  const root = new Root();
+  const group = new Construct(root, 'Group');
+  new Bucket(group, 'Logs');
+  new Bucket(group, 'Data');
+  return { root, group };
+}
+
+test('selectors restrict which constructs a modifier applies to', () => {
+  const { root, group } = twoBuckets();
+  group.link([
+    Select.id('Logs').apply(Bucket.BucketName('logs')),
+    Select.path('Group/D*').apply(Bucket.BucketName('data')),
+  ]);
+
+  const rendered = Resource.renderAll(root);
+  expect(rendered.GroupLogs.Properties.BucketName).toEqual('logs');
+  expect(rendered.GroupData.Properties.BucketName).toEqual('data');
+});
+
+test('path globs', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+  const policy = new BucketPolicy(new Construct(bucket, 'Nested'), 'Policy');
+
+  expect(Select.path('Bucket/*/Policy').matches(policy, bucket)).toBe(true);
+  expect(Select.path('Bucket/**').matches(policy, bucket)).toBe(true);
+  expect(Select.path('**/Policy').matches(policy, bucket)).toBe(true);
+  expect(Select.path('Bucket/Policy').matches(policy, bucket)).toBe(false);
+  expect(Select.path('*/Policy').matches(policy, bucket)).toBe(false);
+});
+
+test('selectors combine', () => {
+  const { root, group } = twoBuckets();
+  const selector = Select.ofClass(Bucket).where(x => x.id!.startsWith('D'), 'starts with D').linksAs('AWS::S3::Bucket');
+
+  expect(selector.matches(group.children.Data, root)).toBe(true);
+  expect(selector.matches(group.children.Logs, root)).toBe(false);
+  expect(`${selector}`).toEqual('Select(class Bucket, starts with D, linksAs "AWS::S3::Bucket")');
+});
+
+test('a modifier that selects nothing is unmatched', () => {
+  const { group } = twoBuckets();
+
+  expect(() => group.link([Select.id('Other').apply(Bucket.BucketName('x'))]))
+    .toThrow(/Select\(id "Other"\)\.apply\(ScalarTweak.*\) did not apply to anything in Construct@Group/);
+});
+
+test('cardinality violations list the candidates', () => {
+  const { group } = twoBuckets();
+
+  expect(() => group.link([Select.all().exactlyOne().apply(Bucket.Tag('Team', 'Storage'))])).toThrow([
+    'Select(exactly one) matched 2 constructs, expected exactly one. Candidates:',
+    '  Bucket@Group/Logs (selected)',
+    '  Bucket@Group/Data (selected)',
+  ].join('\n'));
+  expect(() => group.link([Select.id('Other').atLeastOne().apply(Bucket.Tag('Team', 'Storage'))])).toThrow([
+    'Select(id "Other", at least one) matched 0 constructs, expected at least one. Candidates:',
+    '  Bucket@Group/Logs',
+    '  Bucket@Group/Data',
+  ].join('\n'));
+});
+
+test('constructs the modifier declines are not selected', () => {
+  const { group } = twoBuckets();
+  const linked = new Array<Construct>();
+  const logsOnly: ILinkable = {
+    linksTo: ['AWS::S3::Bucket'],
+    linkTo: (x) => {
+      if (x.id !== 'Logs') {
+        return false;
+      }
+      linked.push(x);
+      return true;
+    },
+  };
+
+  group.link([Select.all().exactlyOne().apply(logsOnly)]);
+  expect(linked).toEqual([group.children.Logs]);
+});
@@ -0,0 +1,61 @@
+import { Bucket, CfnIAMRole, Construct, LinkableSlot, Resource, Root } from "../cdkv3";
+
+test('slots that take many constructs fill a list property', () => {
+  const root = new Root();
+  const one = new Bucket(root, 'One');
+  const two = new Bucket(root, 'Two');
+  new CfnIAMRole(root, 'Role', { assumeRolePolicyDocument: {} });
+  const replication = new Replication(root, 'Replication');
+  root.link([replication]);
+
+  expect(replication.targets.values).toEqual([one, two]);
+  expect(Resource.renderAll(root).Replication.Properties).toEqual({
+    Role: { 'Fn::GetAtt': ['Role', 'Arn'] },
+    Targets: [{ Ref: 'One' }, { Ref: 'Two' }],
+  });
+});
+
+test('element observers fire for every linked construct', () => {
+  const root = new Root();
+  const slot = LinkableSlot.many<Bucket>(['AWS::S3::Bucket']);
+  slot.add(new Bucket(root, 'One'));
+
+  const seen = new Array<string>();
+  slot.addElementObserver((x) => seen.push(x.id!));
+  slot.add(new Bucket(root, 'Two'));
+
+  expect(seen).toEqual(['One', 'Two']);
+});
+
+test('slots that take one construct reject a second one', () => {
+  const root = new Root();
+  const replication = new Replication(root, 'Replication');
+  new CfnIAMRole(root, 'Role').link([replication]);
+
+  expect(() => new CfnIAMRole(root, 'Other').link([replication]))
+    .toThrow('LinkableSlot(AWS::IAM::Role) of Replication@Replication already links to CfnIAMRole@Role, cannot also link to CfnIAMRole@Other');
+});
+
+test('empty required slots are reported at render time', () => {
+  const root = new Root();
+  new Replication(root, 'Replication');
+
+  expect(() => Resource.renderAll(root)).toThrow('Replication (Test::Replication): Role');
+});
+
+test('slots only accept constructs of their type', () => {
+  const root = new Root();
+  const slot = LinkableSlot.one(['AWS::S3::Bucket'], Bucket);
+
+  expect(() => slot.add(new Construct(root, 'Other') as any)).toThrow('LinkableSlot(AWS::S3::Bucket) only accepts Bucket, got Construct@Other');
+});
+
+class Replication extends Resource {
+  public readonly targets = LinkableSlot.many(['AWS::S3::Bucket'], Bucket);
+
+  constructor(scope: Construct, id: string) {
+    super(scope, id, 'Test::Replication');
+    this.addLinkedProperty('Role', LinkableSlot.one(['AWS::IAM::Role'], CfnIAMRole), (x) => x.getAtt('Arn'));
+    this.addLinkedProperty('Targets', this.targets, (x) => x.ref);
+  }
+}
@@ -0,0 +1,84 @@
+import { Bucket, NestedStack, Resource, Root, Stack, Synthesizer } from "../cdkv3";
+
+test('each stack renders into its own template', () => {
+  const root = new Root();
+  new Bucket(new Stack(root, 'One'), 'Bucket');
+  new Bucket(new Stack(root, 'Two'), 'Bucket');
+
+  const stacks = Synthesizer.synthesizeStacks(root);
+  expect(stacks.map(s => s.stackName)).toEqual(['One', 'Two']);
+  expect(Object.keys(stacks[0].template.Resources)).toEqual(['Bucket']);
+  expect(Object.keys(stacks[1].template.Resources)).toEqual(['Bucket']);
+});
+
+test('references between stacks become exports and imports', () => {
+  const root = new Root();
+  const producer = new Stack(root, 'Producer');
+  const consumer = new Stack(root, 'Consumer');
+  const bucket = new Bucket(producer, 'Bucket');
+  new Bucket(consumer, 'Copy', { bucketName: `${bucket.ref}-copy` });
+
+  const [first, second] = Synthesizer.synthesizeStacks(root);
+
+  expect(first.stackName).toEqual('Producer');
+  expect(first.template.Outputs).toEqual({
+    ExportsOutputRefBucket: { Value: { Ref: 'Bucket' }, Export: { Name: 'Producer:ExportsOutputRefBucket' } },
+  });
+  expect(second.dependencies).toEqual(['Producer']);
+  expect(second.template.Resources.Copy.Properties.BucketName).toEqual({
+    'Fn::Join': ['', [{ 'Fn::ImportValue': 'Producer:ExportsOutputRefBucket' }, '-copy']],
+  });
+});
+
+test('cyclic references between stacks are an error', () => {
+  const root = new Root();
+  const one = new Bucket(new Stack(root, 'One'), 'Bucket');
+  const two = new Bucket(new Stack(root, 'Two'), 'Bucket', { bucketName: one.ref });
+  one.link([Bucket.BucketName(two.getAtt('Arn'))]);
+
+  expect(() => Synthesizer.synthesizeStacks(root)).toThrow(/Dependency cycle between stacks: (One -> Two -> One|Two -> One -> Two)/);
+});
+
+test('nested stacks reference their parents through parameters and outputs', () => {
+  const root = new Root();
+  const parent = new Stack(root, 'Parent');
+  const nested = new NestedStack(parent, 'Nested');
+  const logs = new Bucket(parent, 'Logs');
+  const data = new Bucket(nested, 'Data', { bucketName: logs.ref });
+  new Bucket(parent, 'Copy', { bucketName: data.getAtt('Arn') });
+
+  const stacks = Synthesizer.synthesizeStacks(root);
+  expect(stacks.map(s => [s.stackName, s.parentStack])).toEqual([['Parent-Nested', 'Parent'], ['Parent', undefined]]);
+
+  const [child, top] = stacks.map(s => s.template);
+  expect(child.Parameters).toEqual({ ReferenceRefLogs: { Type: 'String' } });
+  expect(child.Resources.Data.Properties.BucketName).toEqual({ Ref: 'ReferenceRefLogs' });
+  expect(child.Outputs).toEqual({ OutputFnGetAttDataArn: { Value: { 'Fn::GetAtt': ['Data', 'Arn'] } } });
+
+  expect(top.Resources.NestedStack).toEqual({
+    Type: 'AWS::CloudFormation::Stack',
+    Properties: {
+      Parameters: { ReferenceRefLogs: { Ref: 'Logs' } },
+      TemplateURL: 'Parent-Nested.template.json',
+    },
+  });
+  expect(top.Resources.Copy.Properties.BucketName).toEqual({ 'Fn::GetAtt': ['NestedStack', 'Outputs.OutputFnGetAttDataArn'] });
+});
+
+test('resources outside of stacks are an error when synthesizing stacks', () => {
+  const root = new Root();
+  new Stack(root, 'Stack');
+  new Bucket(root, 'Bucket');
+
+  expect(() => Synthesizer.synthesizeStacks(root)).toThrow('Every resource must be in a Stack, but these are not: Bucket@Bucket');
+});
+
+test('renderAll only renders the resources of one template', () => {
+  const root = new Root();
+  const stack = new Stack(root, 'Stack');
+  new Bucket(root, 'Outside');
+  new Bucket(stack, 'Inside');
+
+  expect(Object.keys(Resource.renderAll(root))).toEqual(['Outside']);
+  expect(Object.keys(Resource.renderAll(stack))).toEqual(['Inside']);
+});
@@ -0,0 +1,68 @@
+import { Bucket, Condition, Output, Parameter, ResourceAttributes, Root, Synthesizer } from "../cdkv3";
+import * as yaml from "js-yaml";
+
+test('synthesize a complete template', () => {
+  const root = new Root();
+  const env = new Parameter(root, 'Env', { allowedValues: ['dev', 'prod'] });
+  const isProd = new Condition(root, 'IsProd', { expression: { 'Fn::Equals': [env.value, 'prod'] } });
+  const bucket = new Bucket(root, 'Bucket', { bucketName: 'MyBucket' }, [
+    ResourceAttributes.DeletionPolicy('AWS::S3::Bucket', 'Retain'),
+    ResourceAttributes.Condition('AWS::S3::Bucket', isProd),
+  ]);
+  new Output(root, 'BucketName', { value: bucket.ref, condition: isProd });
+
+  expect(Synthesizer.synthesize(root, { description: 'My app' })).toEqual({
+    AWSTemplateFormatVersion: '2010-09-09',
+    Description: 'My app',
+    Parameters: {
+      Env: { Type: 'String', AllowedValues: ['dev', 'prod'] },
+    },
+    Conditions: {
+      IsProd: { 'Fn::Equals': [{ Ref: 'Env' }, 'prod'] },
+    },
+    Resources: {
+      Bucket: {
+        Type: 'AWS::S3::Bucket',
+        Properties: { BucketName: 'MyBucket' },
+        DeletionPolicy: 'Retain',
+        Condition: 'IsProd',
+      },
+    },
+    Outputs: {
+      BucketName: { Value: { Ref: 'Bucket' }, Condition: 'IsProd' },
+    },
+  });
+});
+
+test('render as YAML', () => {
+  const root = new Root();
+  new Bucket(root, 'Bucket', {
+    bucketName: 'my bucket',
+    tags: [{ key: 'CostCenter', value: '1234' }],
+  });
+
+  expect(Synthesizer.toYaml(Synthesizer.synthesize(root))).toEqual([
+    'AWSTemplateFormatVersion: "2010-09-09"',
+    'Resources:',
+    '  Bucket:',
+    '    Type: AWS::S3::Bucket',
+    '    Properties:',
+    '      BucketName: "my bucket"',
+    '      Tags:',
+    '        - Key: CostCenter',
+    '          Value: "1234"',
+    '',
+  ].join('\n'));
+});
+
+test('YAML parses back to the same template', () => {
+  const root = new Root();
+  new Bucket(root, 'Bucket', {
+    bucketName: '@handle',
+    tags: ['plain', 'with space', 'key:value', 'ends:', '$dollar', '/path', 'true', 'null', '1234', '#hash', '-dash', '*star', '&amp', '!bang', '%pct', '`tick']
+      .map((value, i) => ({ key: `Tag${i}`, value })),
+  });
+
+  const template = Synthesizer.synthesize(root);
+  expect(yaml.load(Synthesizer.toYaml(template))).toEqual(template);
+});
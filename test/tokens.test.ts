@@ -0,0 +1,83 @@
+import { Bucket, Fn, Parameter, Root, Scope, deepResolve, isToken } from "../cdkv3";
+
+test('tokens embedded in strings render to Fn::Sub', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+
+  expect(deepResolve(`arn:aws:s3:::${bucket.ref}/*`, root)).toEqual({ 'Fn::Sub': 'arn:aws:s3:::${Bucket}/*' });
+  expect(deepResolve(`${bucket.domainName}/\${literal}`, root)).toEqual({ 'Fn::Sub': '${Bucket.DomainName}/${!literal}' });
+});
+
+test('other intrinsics embedded in strings render to Fn::Join', () => {
+  const root = new Root();
+  const param = new Parameter(root, 'Names', { type: 'CommaDelimitedList' });
+
+  expect(deepResolve(`first-${Fn.select(root, 0, param.valueAsList)}`, root)).toEqual({
+    'Fn::Join': ['', ['first-', { 'Fn::Select': [0, { Ref: 'Names' }] }]],
+  });
+});
+
+test('number tokens', () => {
+  const root = new Root();
+  const param = new Parameter(root, 'Count', { type: 'Number' });
+
+  expect(isToken(param.valueAsNumber)).toBe(true);
+  expect(deepResolve({ Count: param.valueAsNumber }, root)).toEqual({ Count: { Ref: 'Count' } });
+});
+
+test('intrinsics are evaluated right away if they have no tokens', () => {
+  const root = new Root();
+
+  expect(Fn.join(root, '-', ['a', 'b'])).toEqual('a-b');
+  expect(Fn.split(root, ',', 'a,b')).toEqual(['a', 'b']);
+});
+
+test('Fn.sub turns tokens in the template into references', () => {
+  const root = new Root();
+  const bucket = new Bucket(root, 'Bucket');
+
+  expect(deepResolve(Fn.sub(root, `${bucket.arn}/\${Prefix}`, { Prefix: 'logs' }), root)).toEqual({
+    'Fn::Sub': ['${Bucket.Arn}/${Prefix}', { Prefix: 'logs' }],
+  });
+});
+
+test('tokens are numbered per app', () => {
+  const app1 = new Root();
+  const app2 = new Root();
+  const ref = new Bucket(app1, 'Bucket').ref;
+
+  expect(ref).toMatch(/^\$\{Token1@[0-9a-f]{6}\}$/);
+  expect(new Bucket(app2, 'Bucket').ref).toEqual(ref);
+});
+
+test('resolving a token from a different app is an error', () => {
+  const app1 = new Root();
+  const app2 = new Root();
+  const first = new Bucket(app1, 'First');
+  new Bucket(app2, 'Second').ref;
+  new Parameter(app2, 'Count', { type: 'Number' }).valueAsNumber;
+
+  expect(() => deepResolve(first.ref, app2)).toThrow(/Unknown token \$\{Token1@[0-9a-f]{6}\}: was it created in a different app/);
+  expect(() => deepResolve(new Parameter(app1, 'Limit', { type: 'Number' }).valueAsNumber, app2)).toThrow(/Unknown token/);
+});
+
+test('tokens of floating constructs resolve after reparenting', () => {
+  const root = new Root();
+  const logs = new Bucket(Scope.FLOATING, 'Logs');
+  const ref = logs.ref;
+  root.link([logs]);
+
+  expect(deepResolve(ref, root)).toEqual({ Ref: 'Logs' });
+  expect(() => deepResolve(ref, new Root())).toThrow(/Unknown token .*: was it created in a different app/);
+});
+
+test('floating constructs can share ids until they are linked', () => {
+  const first = new Bucket(Scope.FLOATING, 'Logs');
+  const second = new Bucket(Scope.FLOATING, 'Logs');
+  const ref = second.ref;
+  new Root().link([first]);
+  const root = new Root();
+  root.link([second]);
+
+  expect(deepResolve({ Bucket: ref }, root)).toEqual({ Bucket: { Ref: 'Logs' } });
+});
@@ -0,0 +1,85 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Bucket, BucketPolicy, Root, Scope, Synthesizer, toDot, toMermaid, treeManifest } from "../cdkv3";
+
+function app() {
+  const root = new Root();
+  new Bucket(root, 'Bucket', {}, [
+    Bucket.BucketName('MyBucket'),
+    new BucketPolicy(Scope.FLOATING, 'Policy'),
+  ]);
+  return root;
+}
+
+test('the manifest describes constructs and the links that touched them', () => {
+  const manifest = treeManifest(app());
+  const bucket = manifest.tree.children!.Bucket;
+
+  expect(bucket).toMatchObject({
+    id: 'Bucket',
+    path: 'Bucket',
+    class: 'Bucket',
+    linksAs: ['AWS::S3::Bucket'],
+    properties: { BucketName: 'MyBucket' },
+  });
+  expect(bucket.links!.map(l => [l.kind, l.linkable, l.target])).toEqual([
+    ['link', 'ScalarTweak("AWS::S3::Bucket", "BucketName", "MyBucket")', 'Bucket'],
+    ['reparent', 'Bucket/Policy', 'Bucket'],
+    ['link', 'Bucket/Policy', 'Bucket'],
+  ]);
+  expect(bucket.links![0].linkedAt).toMatch(/tree.test.ts/);
+  expect(bucket.children!.Policy.linksTo).toEqual(['AWS::S3::Bucket']);
+});
+
+test('synthesis writes tree.json on request', () => {
+  const outdir = fs.mkdtempSync(path.join(os.tmpdir(), 'tree-test-'));
+  try {
+    const files = Synthesizer.write(app(), outdir, { treeManifest: true });
+
+    expect(files.map(f => path.basename(f))).toEqual(['template.json', 'tree.json']);
+    expect(JSON.parse(fs.readFileSync(path.join(outdir, 'tree.json'), 'utf-8')).version).toEqual('tree-0.1');
+  } finally {
+    fs.rmSync(outdir, { recursive: true });
+  }
+});
+
+test('export the tree and links as DOT', () => {
+  expect(toDot(app())).toEqual([
+    'digraph constructs {',
+    '  node [shape=box];',
+    '  n0 [label="Root"];',
+    '  n1 [label="Bucket\\nBucket"];',
+    '  n2 [label="Policy\\nBucketPolicy"];',
+    '  n3 [label="PolicyDocument\\nPolicyDocument"];',
+    '  m0 [label="ScalarTweak(\\"AWS::S3::Bucket\\", \\"BucketName\\", \\"MyBucket\\")", shape=note];',
+    '  m1 [label="ScalarTweak(\\"AWS::S3::BucketPolicy\\", \\"PolicyDocument\\", \\"PolicyDocument@Bucket/Policy/PolicyDocument\\")", shape=note];',
+    '  n0 -> n1;',
+    '  n1 -> n2;',
+    '  n2 -> n3;',
+    '  m0 -> n1 [style=dashed, label="link"];',
+    '  n2 -> n1 [style=dashed, label="reparent"];',
+    '  n2 -> n1 [style=dashed, label="link"];',
+    '  m1 -> n2 [style=dashed, label="link"];',
+    '}',
+  ].join('\n'));
+});
+
+test('export the tree and links as Mermaid', () => {
+  expect(toMermaid(app())).toEqual([
+    'graph TD',
+    '  n0["Root"]',
+    '  n1["Bucket<br/>Bucket"]',
+    '  n2["Policy<br/>BucketPolicy"]',
+    '  n3["PolicyDocument<br/>PolicyDocument"]',
+    '  m0>"ScalarTweak(#quot;AWS::S3::Bucket#quot;, #quot;BucketName#quot;, #quot;MyBucket#quot;)"]',
+    '  m1>"ScalarTweak(#quot;AWS::S3::BucketPolicy#quot;, #quot;PolicyDocument#quot;, #quot;PolicyDocument@Bucket/Policy/PolicyDocument#quot;)"]',
+    '  n0 --> n1',
+    '  n1 --> n2',
+    '  n2 --> n3',
+    '  m0 -.->|link| n1',
+    '  n2 -.->|reparent| n1',
+    '  n2 -.->|link| n1',
+    '  m1 -.->|link| n2',
+  ].join('\n'));
+});